@@ -1,12 +1,42 @@
 
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import VideoPlayer, { VideoPlayerHandle } from './components/VideoPlayer';
 import SubtitleList from './components/SubtitleList';
-import { VideoState, SubtitleNode, GenerationStatus } from './types';
-import { PlayIcon, PauseIcon, UploadIcon, SparklesIcon, DownloadIcon, ImportIcon, GlobeIcon, FilmIcon } from './components/Icons';
-import { generateSceneDescription, analyzeAudioDeeply, translateBatch } from './services/geminiService';
-import { extractAudioFromVideo } from './utils/audioUtils';
+import { VideoState, SubtitleNode, GenerationStatus, CaptionMode, AnalysisSettings, AudioChunk, ChunkSegment, SegmentRepair, VadRegion, ProgramLoudness, AnalysisRange, SceneDescriptionTask, AnalysisProviderId } from './types';
+import { PlayIcon, PauseIcon, UploadIcon, SparklesIcon, DownloadIcon, ImportIcon, GlobeIcon, FilmIcon, CaptionsIcon, RangeIcon } from './components/Icons';
+import { ANALYSIS_PROVIDERS, getAnalysisProvider } from './services/providers';
+import { describeError } from './services/requestLayer';
+import { decodeAudioFromVideo, decodeNativeAudio, detectVoiceActivity } from './utils/audioUtils';
+import { AudioJobOptions, isAbortError, computeBoundariesInWorker } from './utils/audioWorkerClient';
+import { planChunks, analyzeChunk, mergeChunkSegments, applyVoiceActivity, snapSegmentsToSpeech, isInRange } from './utils/chunkedAnalysis';
+import { resolveDialogueOverlaps, listRunRepairs, formatRepairLog } from './utils/segmentValidation';
 import { detectScenes } from './utils/sceneDetection';
+import { AudioBoundarySignal } from './utils/audioBoundaries';
+import { clusterShots } from './utils/shotClustering';
+import { planSceneDescriptions, isPlaceholderSceneText, sceneEnd, createFrameSampler, runWithConcurrency } from './utils/sceneDescriptions';
+import { exportToSrt, exportToVtt, exportToAss, parseSrt, mergeDialogueCues, SubtitleExportOptions, AssExportOptions, DEFAULT_VTT_OPTIONS } from './utils/subtitleFormats';
+import { downloadTextFile, downloadBlob, getBaseName } from './utils/download';
+import ExportMenu from './components/ExportMenu';
+import AssExportMenu from './components/AssExportMenu';
+import ImportReport, { ImportReportData } from './components/ImportReport';
+import ErrorBanner, { ErrorBannerData } from './components/ErrorBanner';
+import NleExportMenu from './components/NleExportMenu';
+import { exportToEdl, exportToFcpxml, NleExportOptions } from './utils/nleExport';
+import CueSheetMenu from './components/CueSheetMenu';
+import StoryboardMenu from './components/StoryboardMenu';
+import ChunkProgress from './components/ChunkProgress';
+import ChunkSettingsMenu from './components/ChunkSettingsMenu';
+import SceneSettingsMenu from './components/SceneSettingsMenu';
+import DescribeSettingsMenu from './components/DescribeSettingsMenu';
+import DescribeProgress from './components/DescribeProgress';
+import TimelineLane from './components/TimelineLane';
+import AudioTimeline from './components/AudioTimeline';
+import LoudnessReport from './components/LoudnessReport';
+import { estimateMusicTempo, TempoCache } from './utils/tempo';
+import { prepareLoudnessAnalysis, measureProgram, measureSegments, formatLoudnessReport } from './utils/loudness';
+import { exportCueSheetCsv, exportCueSheetHtml, CueSheetOptions } from './utils/cueSheet';
+import { exportStoryboardHtml, renderStoryboardPng, StoryboardOptions } from './utils/storyboard';
+import { createProjectFile, parseProjectFile, computeFileFingerprint, DEFAULT_ANALYSIS_SETTINGS } from './utils/projectFile';
 
 const App: React.FC = () => {
   const playerRef = useRef<VideoPlayerHandle>(null);
@@ -25,12 +55,57 @@ const App: React.FC = () => {
   const [subtitles, setSubtitles] = useState<SubtitleNode[]>([]);
   const [genStatus, setGenStatus] = useState<GenerationStatus>(GenerationStatus.IDLE);
   const [progress, setProgress] = useState(0); // For visual scene detection progress
+  const [sceneFps, setSceneFps] = useState(0); // Frames decoded per second by scene detection
+  const [sceneAudioProgress, setSceneAudioProgress] = useState<number | null>(null); // Audio cue pass before the scan (0-100)
+  const sceneAbortRef = useRef<AbortController | null>(null); // Cancels the running scene detection
+  const [isGroupingShots, setIsGroupingShots] = useState(false);
+  const [describeTasks, setDescribeTasks] = useState<SceneDescriptionTask[]>([]);
+  const [isDescribing, setIsDescribing] = useState(false);
+  const describeAbortRef = useRef<AbortController | null>(null); // Cancels the running "Describe all scenes" job
   const [isTranslating, setIsTranslating] = useState(false);
+  const [captionMode, setCaptionMode] = useState<CaptionMode>('off');
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(DEFAULT_ANALYSIS_SETTINGS);
+  const [videoFingerprint, setVideoFingerprint] = useState<string | null>(null);
+  const [importReport, setImportReport] = useState<ImportReportData | null>(null);
+  const [aiError, setAiError] = useState<ErrorBannerData | null>(null); // Last failed one-off AI action
+  // This render's AI actions, so a retry from the error banner sees the current state rather than the failed run's
+  const aiActionsRef = useRef<{ analyzeScene: () => void; fullAnalysis: () => void; batchTranslate: (targetLang: 'Spanish' | 'English') => void } | null>(null);
+  const [chunks, setChunks] = useState<AudioChunk[]>([]);
+  const [mergeRepairs, setMergeRepairs] = useState<SegmentRepair[]>([]); // Overlap fixes made when the chunks were combined
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null); // Decoded 16kHz mono, shared by analysis and timeline
+  const [isDecodingAudio, setIsDecodingAudio] = useState(false);
+  const [audioProgress, setAudioProgress] = useState(0); // Resampling progress while decoding (0-100)
+  const analysisAbortRef = useRef<AbortController | null>(null); // Cancels the running audio analysis
+  const chunkSegmentsRef = useRef<Map<string, ChunkSegment>>(new Map()); // Segments of the current chunked run as last committed, by node id
+  const chunkTempoRef = useRef<TempoCache>(new Map()); // Tempo estimates of the current run's music nodes, reused across commits
+  const chunkRangeRef = useRef<AnalysisRange | null>(null); // In/out range of the current chunked run
+  const [range, setRange] = useState<AnalysisRange | null>(null);
+  const [vadRegions, setVadRegions] = useState<VadRegion[]>([]);
+  const vadRegionsRef = useRef<VadRegion[]>([]); // Read by chunk callbacks outside the render cycle
+  const [programLoudness, setProgramLoudness] = useState<ProgramLoudness | null>(null);
+  const [showLoudnessReport, setShowLoudnessReport] = useState(false);
+  const [isMeasuringLoudness, setIsMeasuringLoudness] = useState(false);
+  const [loudnessProgress, setLoudnessProgress] = useState(0); // Measurement progress over all channels (0-100)
+  const loudnessAbortRef = useRef<AbortController | null>(null); // Cancels the running loudness measurement
+  const provider = getAnalysisProvider(analysisSettings.provider); // Backend for every AI request below
+
+  // Fingerprint the loaded video so saved projects can be matched back to it
+  useEffect(() => {
+    setVideoFingerprint(null);
+    if (!videoState.fileObj) return;
+
+    let cancelled = false;
+    computeFileFingerprint(videoState.fileObj)
+      .then(fp => { if (!cancelled) setVideoFingerprint(fp); })
+      .catch(err => console.error("Fingerprint failed", err));
+    return () => { cancelled = true; };
+  }, [videoState.fileObj]);
 
   // Handle Video File Upload
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
+      abortRunningJobs();
       const url = URL.createObjectURL(file);
       setVideoState({
         url,
@@ -43,28 +118,39 @@ const App: React.FC = () => {
       setSubtitles([]); // Reset subtitles for new video
       setGenStatus(GenerationStatus.IDLE);
       setProgress(0);
+      setIsDescribing(false);
+      setDescribeTasks([]);
+      setIsMeasuringLoudness(false);
+      setAiError(null);
+      handleDismissChunks();
+      handleClearVad();
+      setAudioBuffer(null);
+      setProgramLoudness(null);
+      setRange(null);
     }
   };
 
-  // Handle JSON Analysis Import
-  const handleJsonUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Cancels every job still working on the current video. Jobs check that their controller is still
+  // the current one before writing results, so an earlier video's results never reach the new one.
+  const abortRunningJobs = () => {
+    [sceneAbortRef, describeAbortRef, analysisAbortRef, loudnessAbortRef].forEach(ref => {
+      ref.current?.abort();
+      ref.current = null;
+    });
+  };
+
+  // Handle Analysis Import (JSON project or SubRip)
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const parsedData = JSON.parse(content);
-        
-        if (Array.isArray(parsedData)) {
-          setSubtitles(parsedData);
-        } else {
-          alert("Invalid JSON structure: Expected an array of subtitles.");
-        }
-      } catch (error) {
-        console.error("Failed to parse JSON", error);
-        alert("Failed to load JSON file. Please check the file format.");
+      const content = e.target?.result as string;
+      if (file.name.toLowerCase().endsWith('.srt')) {
+        handleSrtImport(content);
+      } else {
+        handleJsonUpload(content);
       }
     };
     reader.readAsText(file);
@@ -75,6 +161,78 @@ const App: React.FC = () => {
     }
   };
 
+  const handleJsonUpload = (content: string) => {
+    const { project, errors, warnings, migratedFrom } = parseProjectFile(content);
+
+    if (project && videoFingerprint && project.source.fingerprint && project.source.fingerprint !== videoFingerprint) {
+      warnings.push({
+        location: 'source',
+        message: `Saved for a different video${project.source.fileName ? ` (${project.source.fileName})` : ''}`
+      });
+    }
+
+    const applyProject = () => {
+      if (!project) return;
+      setSubtitles(project.nodes);
+      setAnalysisSettings(project.settings);
+    };
+
+    // Clean files load silently, including older versions that only lack newer optional fields
+    if (project && errors.length === 0 && warnings.length === 0) {
+      applyProject();
+      return;
+    }
+
+    const nodeCount = project?.nodes.length ?? 0;
+    setImportReport({
+      title: project ? 'Project import report' : 'Project import failed',
+      summary: project
+        ? `${nodeCount} valid node${nodeCount === 1 ? '' : 's'}${migratedFrom ? `, migrated from v${migratedFrom}` : ''}. Invalid nodes are skipped.`
+        : 'The file could not be read as a SceneSync project.',
+      errors,
+      warnings,
+      confirmLabel: project ? `Import ${nodeCount} node${nodeCount === 1 ? '' : 's'}` : undefined,
+      onConfirm: project ? applyProject : undefined,
+    });
+  };
+
+  // SRT only carries dialogue: it either replaces the dialogue layer (keeping scenes/music) or fills its gaps.
+  // Existing dialogue is never replaced without asking.
+  const handleSrtImport = (content: string) => {
+    const { nodes, rejected } = parseSrt(content);
+    const existingCount = subtitles.filter(s => s.type === 'dialogue').length;
+
+    const replaceCues = () => {
+      setSubtitles(prev => {
+        const combined = [...prev.filter(s => s.type !== 'dialogue'), ...nodes];
+        return combined.sort((a, b) => a.timestamp - b.timestamp);
+      });
+    };
+    const mergeCues = () => {
+      setSubtitles(prev => mergeDialogueCues(prev, nodes).nodes);
+    };
+
+    if (rejected.length === 0 && existingCount === 0) {
+      replaceCues();
+      return;
+    }
+
+    const canImport = nodes.length > 0;
+    const gapCount = mergeDialogueCues(subtitles, nodes).added;
+    setImportReport({
+      title: 'SRT import report',
+      summary: `${nodes.length} cues parsed, ${rejected.length} rejected.` + (existingCount > 0
+        ? ` The timeline already has ${existingCount} dialogue node${existingCount === 1 ? '' : 's'}: replace them, or merge and keep them (${gapCount} cue${gapCount === 1 ? '' : 's'} fit in the gaps).`
+        : ''),
+      errors: rejected.map(r => ({ location: `Line ${r.line}`, message: r.reason })),
+      warnings: [],
+      confirmLabel: !canImport ? undefined : existingCount > 0 ? `Replace dialogue with ${nodes.length} cues` : `Import ${nodes.length} cues`,
+      onConfirm: canImport ? replaceCues : undefined,
+      secondaryLabel: `Merge ${gapCount} cue${gapCount === 1 ? '' : 's'}`,
+      onSecondary: canImport && existingCount > 0 && gapCount > 0 ? mergeCues : undefined,
+    });
+  };
+
   const handleTimeUpdate = useCallback((time: number) => {
     setVideoState(prev => ({ ...prev, currentTime: time }));
   }, []);
@@ -89,6 +247,28 @@ const App: React.FC = () => {
     }
   };
 
+  // In/out points. Marking one side keeps the other if it still makes a valid range.
+  const handleMarkIn = () => {
+    const time = videoState.currentTime;
+    if (time >= videoState.duration) return;
+    setRange(prev => ({ start: time, end: prev && prev.end > time ? prev.end : videoState.duration }));
+  };
+
+  const handleMarkOut = () => {
+    const time = videoState.currentTime;
+    if (time <= 0) return;
+    setRange(prev => ({ start: prev && prev.start < time ? prev.start : 0, end: time }));
+  };
+
+  // A scene runs until its end time, else until the next scene starts
+  const handleSetSceneRange = (node: SubtitleNode) => {
+    const nextScene = subtitles
+      .filter(s => s.type === 'scene' && s.timestamp > node.timestamp)
+      .sort((a, b) => a.timestamp - b.timestamp)[0];
+    const end = node.endTime ?? nextScene?.timestamp ?? videoState.duration;
+    if (end > node.timestamp) setRange({ start: node.timestamp, end });
+  };
+
   // 1. Quick Single Scene Analysis (Visual)
   const handleAnalyzeScene = async () => {
     if (genStatus !== GenerationStatus.IDLE || !playerRef.current) return;
@@ -96,14 +276,16 @@ const App: React.FC = () => {
     playerRef.current.pause();
     setVideoState(prev => ({ ...prev, isPlaying: false }));
     setGenStatus(GenerationStatus.ANALYZING_AI);
+    setAiError(null);
 
-    const currentTimestamp = videoState.currentTime;
+    // Read from the element: a retry from the error banner runs with the state of an earlier render
+    const currentTimestamp = playerRef.current.videoElement?.currentTime ?? videoState.currentTime;
 
     try {
       const frameBase64 = playerRef.current.captureFrame();
       if (!frameBase64) throw new Error("Could not capture video frame.");
 
-      const text = await generateSceneDescription(frameBase64);
+      const text = await provider.describeScene(frameBase64);
 
       const newSubtitle: SubtitleNode = {
         id: crypto.randomUUID(),
@@ -122,58 +304,277 @@ const App: React.FC = () => {
 
     } catch (error) {
       console.error("Analysis failed", error);
+      setAiError({ title: "Scene analysis failed", message: describeError(error), onRetry: () => aiActionsRef.current?.analyzeScene() });
       setGenStatus(GenerationStatus.ERROR);
     } finally {
       setTimeout(() => setGenStatus(GenerationStatus.IDLE), 2000);
     }
   };
 
-  // 2. Full Deep Audio Analysis
+  // Decodes the video's audio once and reuses it for every audio feature
+  const ensureAudioBuffer = async (signal?: AbortSignal): Promise<AudioBuffer | null> => {
+    if (audioBuffer) return audioBuffer;
+    if (!videoState.fileObj) return null;
+
+    setIsDecodingAudio(true);
+    setAudioProgress(0);
+    try {
+      const buffer = await decodeAudioFromVideo(videoState.fileObj, {
+        signal,
+        onProgress: (fraction) => setAudioProgress(Math.round(fraction * 100)),
+      });
+      setAudioBuffer(buffer);
+      return buffer;
+    } finally {
+      setIsDecodingAudio(false);
+    }
+  };
+
+  const handleLoadAudioTimeline = async () => {
+    try {
+      await ensureAudioBuffer();
+    } catch (error) {
+      console.error("Audio decode failed", error);
+      alert("Could not decode the audio track of this video.");
+    }
+  };
+
+  // 2. Full Deep Audio Analysis (chunked, so feature-length audio fits in each request)
   const handleFullAnalysis = async () => {
     if (!videoState.fileObj) return;
     
     setGenStatus(GenerationStatus.PROCESSING_AUDIO);
+    setAiError(null);
     playerRef.current?.pause();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
 
     try {
-      // Step 1: Extract Audio
-      const audioBase64 = await extractAudioFromVideo(videoState.fileObj);
-      
-      setGenStatus(GenerationStatus.ANALYZING_AI);
+      // Step 1: Decode Audio (kept for retrying individual chunks)
+      const buffer = await ensureAudioBuffer(controller.signal);
+      if (!buffer) throw new Error("Could not decode audio.");
+      chunkSegmentsRef.current = new Map();
+      chunkTempoRef.current = new Map();
+      chunkRangeRef.current = range;
 
-      // Step 2: Send to Gemini
-      const result = await analyzeAudioDeeply(audioBase64);
-      
-      // Step 3: Map Result
-      const newNodes: SubtitleNode[] = result.segments.map((seg: any) => ({
-        id: crypto.randomUUID(),
-        timestamp: seg.startTime,
-        endTime: seg.endTime,
-        type: seg.type,
-        text: seg.text,
-        isAutoGenerated: true,
-        speaker: seg.speaker,
-        emotion: seg.emotion,
-        musicAnalysis: seg.musicAnalysis
-      }));
+      // Step 2: Local voice activity, used to skip silence and snap dialogue edges
+      const regions = analysisSettings.useVad ? detectVoiceActivity(buffer) : [];
+      vadRegionsRef.current = regions;
+      setVadRegions(regions);
 
-      // Append to existing (or merge if we were smarter, but append is fine for now)
-      // Actually, let's sort them after adding
-      setSubtitles(prev => {
-        const combined = [...prev, ...newNodes];
-        return combined.sort((a, b) => a.timestamp - b.timestamp);
-      });
-      
-      setGenStatus(GenerationStatus.SUCCESS);
+      // Step 3: Plan overlapping windows (over the in/out range when one is set)
+      let planned = planChunks(
+        range ? Math.min(range.end, buffer.duration) : buffer.duration,
+        analysisSettings.chunkDuration,
+        analysisSettings.chunkOverlap,
+        range?.start ?? 0
+      );
+      if (regions.length > 0) planned = applyVoiceActivity(planned, regions);
+      setChunks(planned);
+
+      // Step 4: Send each window to Gemini
+      setGenStatus(GenerationStatus.ANALYZING_AI);
+      const pending = planned.filter(c => c.status === 'pending').map(c => c.index);
+      const finished = await runChunks(buffer, planned, pending, { signal: controller.signal });
+      if (analysisAbortRef.current !== controller) return;
+
+      setGenStatus(finished.some(c => c.status === 'error') ? GenerationStatus.ERROR : GenerationStatus.SUCCESS);
 
     } catch (error) {
+      if (analysisAbortRef.current !== controller) return;
+      if (isAbortError(error)) {
+        setGenStatus(GenerationStatus.IDLE);
+        return;
+      }
       console.error("Deep Analysis Failed", error);
+      setAiError({ title: "Audio analysis failed", message: describeError(error), onRetry: () => aiActionsRef.current?.fullAnalysis() });
       setGenStatus(GenerationStatus.ERROR);
     } finally {
-      setTimeout(() => setGenStatus(GenerationStatus.IDLE), 3000);
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setTimeout(() => setGenStatus(GenerationStatus.IDLE), 3000);
+      }
     }
   };
 
+  // Analyzes the given chunks one after another, committing results after each so progress is visible.
+  // Cancelling marks the unfinished chunks as failed so they can be retried later.
+  const runChunks = async (buffer: AudioBuffer, initial: AudioChunk[], indices: number[], options: AudioJobOptions = {}) => {
+    let working = initial;
+    const update = (index: number, patch: Partial<AudioChunk>) => {
+      working = working.map(c => c.index === index ? { ...c, ...patch } : c);
+      setChunks(working);
+    };
+    // A new video was loaded: this run's results no longer apply
+    const superseded = () => analysisAbortRef.current?.signal !== options.signal;
+
+    for (const index of indices) {
+      if (superseded()) return working;
+      if (options.signal?.aborted) {
+        update(index, { status: 'error', error: 'Cancelled' });
+        continue;
+      }
+      update(index, { status: 'running', error: undefined, repairs: undefined });
+      try {
+        const { segments, repairs } = await analyzeChunk(buffer, working[index], provider.analyzeAudio, analysisSettings.audioEncoding, options);
+        if (superseded()) return working;
+        if (repairs.length > 0) console.warn(`Chunk ${index + 1}: ${repairs.length} segment repairs`, repairs);
+        update(index, { status: 'done', segments, repairs });
+      } catch (error) {
+        if (superseded()) return working;
+        if (isAbortError(error)) {
+          update(index, { status: 'error', error: 'Cancelled' });
+          continue;
+        }
+        console.error(`Chunk ${index + 1} failed`, error);
+        update(index, { status: 'error', error: describeError(error) });
+      }
+      commitChunkResults(working, buffer);
+    }
+
+    return working;
+  };
+
+  // Syncs this run's nodes with the de-duplicated union of every finished chunk. Nodes keep their ids
+  // across commits: new segments are added, vanished ones removed, and surviving ones updated in place,
+  // keeping the user's edits and anything attached to them. A node the user deleted stays deleted.
+  // A range-limited run also replaces the older dialogue/music nodes inside its range.
+  const commitChunkResults = (current: AudioChunk[], buffer: AudioBuffer) => {
+    const merged = mergeChunkSegments(current);
+    const snapped = vadRegionsRef.current.length > 0 ? snapSegmentsToSpeech(merged, vadRegionsRef.current) : merged;
+    const { segments, repairs } = resolveDialogueOverlaps(snapped);
+    setMergeRepairs(repairs);
+
+    const rawNodes: SubtitleNode[] = segments.map(seg => ({
+      id: seg.nodeId,
+      timestamp: seg.startTime,
+      endTime: seg.endTime,
+      type: seg.type as SubtitleNode['type'], // validateSegments already mapped or dropped silence
+      text: seg.text,
+      isAutoGenerated: true,
+      speaker: seg.speaker ?? undefined,
+      emotion: seg.emotion ?? undefined,
+      musicAnalysis: seg.musicAnalysis ?? undefined
+    }));
+    // Back the AI tempo label with a BPM measured from the same audio; unchanged segments keep their estimate
+    const freshNodes = estimateMusicTempo(rawNodes, buffer, chunkTempoRef.current);
+
+    const committed = chunkSegmentsRef.current;
+    chunkSegmentsRef.current = new Map(segments.map(seg => [seg.nodeId, seg]));
+    const runIds = new Set(segments.map(seg => seg.nodeId));
+    const runRange = chunkRangeRef.current;
+
+    setSubtitles(prev => {
+      const existing = new Map<string, SubtitleNode>(prev.map(s => [s.id, s]));
+      const kept = prev.filter(s =>
+        !committed.has(s.id) && !runIds.has(s.id) &&
+        !(runRange && (s.type === 'dialogue' || s.type === 'music') && isInRange(s, runRange))
+      );
+      const runNodes = freshNodes.flatMap(fresh => {
+        const node = existing.get(fresh.id);
+        const last = committed.get(fresh.id);
+        if (!node) return last ? [] : [fresh];
+
+        const retimed = node.timestamp !== fresh.timestamp || node.endTime !== fresh.endTime;
+        const timing = { timestamp: fresh.timestamp, endTime: fresh.endTime, loudness: retimed ? undefined : node.loudness };
+        const edited = !last || node.text !== last.text || node.speaker !== (last.speaker ?? undefined) || node.emotion !== (last.emotion ?? undefined);
+        if (edited) return [{ ...node, ...timing }];
+        // A new reading of an unedited node replaces the AI fields; its old translation no longer applies
+        return [{ ...node, ...fresh, ...timing, translation: fresh.text === node.text ? node.translation : undefined }];
+      });
+      return [...kept, ...runNodes].sort((a, b) => a.timestamp - b.timestamp);
+    });
+  };
+
+  const handleRetryChunk = async (index: number) => {
+    const buffer = audioBuffer;
+    if (!buffer || genStatus !== GenerationStatus.IDLE) return;
+
+    setGenStatus(GenerationStatus.ANALYZING_AI);
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    try {
+      const finished = await runChunks(buffer, chunks, [index], { signal: controller.signal });
+      if (analysisAbortRef.current !== controller) return;
+      setGenStatus(finished[index].status === 'error' ? GenerationStatus.ERROR : GenerationStatus.SUCCESS);
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setTimeout(() => setGenStatus(GenerationStatus.IDLE), 2000);
+      }
+    }
+  };
+
+  const handleDismissChunks = () => {
+    setChunks([]);
+    setMergeRepairs([]);
+    chunkSegmentsRef.current = new Map();
+    chunkTempoRef.current = new Map();
+    chunkRangeRef.current = null;
+  };
+
+  // Diagnostics of the current chunked run: every segment that was fixed, remapped or dropped
+  const handleShowRepairs = () => {
+    const entries = listRunRepairs(chunks, mergeRepairs);
+    const title = videoState.fileName || 'Untitled';
+    setImportReport({
+      title: 'Segment validation log',
+      summary: `${entries.length} repair${entries.length === 1 ? '' : 's'} to the AI segments of this run. Dropped segments did not become nodes.`,
+      errors: entries.filter(e => e.repair.action === 'dropped').map(e => ({ location: e.location, message: e.repair.message })),
+      warnings: entries.filter(e => e.repair.action !== 'dropped').map(e => ({ location: e.location, message: e.repair.message })),
+      confirmLabel: 'Download log',
+      onConfirm: () => downloadTextFile(formatRepairLog(entries, title), `${getBaseName(videoState.fileName)}_segment_log.txt`, "text/plain"),
+    });
+  };
+
+  const handleClearVad = () => {
+    setVadRegions([]);
+    vadRegionsRef.current = [];
+  };
+
+  // Measures programme and per-segment loudness on the native-rate audio (the 16kHz render would skew K-weighting and true peak)
+  const handleMeasureLoudness = async () => {
+    if (!videoState.fileObj || isMeasuringLoudness) return;
+
+    const controller = new AbortController();
+    loudnessAbortRef.current = controller;
+    setIsMeasuringLoudness(true);
+    setLoudnessProgress(0);
+    try {
+      const native = await decodeNativeAudio(videoState.fileObj, controller.signal);
+      controller.signal.throwIfAborted();
+      const analysis = await prepareLoudnessAnalysis(native, {
+        signal: controller.signal,
+        onProgress: fraction => setLoudnessProgress(Math.round(fraction * 100)),
+      });
+      if (loudnessAbortRef.current !== controller) return;
+      const program = measureProgram(analysis);
+
+      setProgramLoudness(program);
+      setSubtitles(prev => measureSegments(prev, analysis, program));
+      setShowLoudnessReport(true);
+    } catch (error) {
+      if (isAbortError(error) || loudnessAbortRef.current !== controller) return;
+      console.error("Loudness measurement failed", error);
+      alert("Could not measure the loudness of this video's audio.");
+    } finally {
+      if (loudnessAbortRef.current === controller) {
+        loudnessAbortRef.current = null;
+        setIsMeasuringLoudness(false);
+      }
+    }
+  };
+
+  const handleDownloadLoudnessReport = () => {
+    if (!programLoudness) return;
+    const baseName = getBaseName(videoState.fileName);
+    downloadTextFile(
+      formatLoudnessReport(programLoudness, subtitles, videoState.fileName || baseName),
+      `${baseName}_loudness.txt`,
+      "text/plain"
+    );
+  };
+
   // 3. Detect Visual Scenes (Client-Side Histogram Algo)
   const handleVisualSceneDetection = async () => {
     if (!videoState.fileObj || genStatus !== GenerationStatus.IDLE) return;
@@ -181,26 +582,154 @@ const App: React.FC = () => {
     playerRef.current?.pause();
     setGenStatus(GenerationStatus.PROCESSING_VIDEO);
     setProgress(0);
+    setSceneFps(0);
+    setSceneAudioProgress(null);
+
+    const controller = new AbortController();
+    sceneAbortRef.current = controller;
 
     try {
-      // Call the optimized algorithm
-      const scenes = await detectScenes(videoState.fileObj, (pct) => {
+      // Audio cues are optional: a video without a decodable track falls back to the visual diff
+      let audioSignal: AudioBoundarySignal | null = null;
+      if (analysisSettings.useAudioBoundaries) {
+        try {
+          const buffer = await ensureAudioBuffer(controller.signal);
+          if (buffer) {
+            setSceneAudioProgress(0);
+            audioSignal = await computeBoundariesInWorker(buffer.getChannelData(0).slice(), buffer.sampleRate, {
+              signal: controller.signal,
+              onProgress: fraction => setSceneAudioProgress(Math.round(fraction * 100)),
+            });
+          }
+        } catch (error) {
+          if (!isAbortError(error)) console.error("Audio boundary signal unavailable, using visual cuts only", error);
+        } finally {
+          if (sceneAbortRef.current === controller) setSceneAudioProgress(null);
+        }
+      }
+
+      // Call the optimized algorithm; cancelling keeps the scenes found so far
+      const scenes = await detectScenes(videoState.fileObj, (pct, fps) => {
         setProgress(pct);
-      });
+        setSceneFps(fps);
+      }, analysisSettings, range, audioSignal, controller.signal);
+      if (sceneAbortRef.current !== controller) return;
 
+      // Within a range, the new cuts and technical segments replace those detected there before
+      // (only up to where a cancelled scan got)
+      const replaced = range && controller.signal.aborted
+        ? (scenes.length > 0 ? { start: range.start, end: scenes[scenes.length - 1].endTime ?? range.start } : null)
+        : range;
       setSubtitles(prev => {
-        const combined = [...prev, ...scenes];
+        const kept = replaced ? prev.filter(s => !((s.type === 'scene' || s.type === 'technical') && isInRange(s, replaced))) : prev;
+        const combined = [...kept, ...scenes];
         return combined.sort((a, b) => a.timestamp - b.timestamp);
       });
       setGenStatus(GenerationStatus.SUCCESS);
     } catch (error) {
+      if (sceneAbortRef.current !== controller) return;
       console.error("Visual Scene Detection Failed", error);
       setGenStatus(GenerationStatus.ERROR);
     } finally {
-      setTimeout(() => {
-        setGenStatus(GenerationStatus.IDLE);
-        setProgress(0);
-      }, 2000);
+      if (sceneAbortRef.current === controller) {
+        sceneAbortRef.current = null;
+        setTimeout(() => {
+          setGenStatus(GenerationStatus.IDLE);
+          setProgress(0);
+        }, 2000);
+      }
+    }
+  };
+
+  // Shot grouping: cluster scene thumbnails into recurring camera setups
+  const handleGroupShots = async () => {
+    if (isGroupingShots) return;
+
+    setIsGroupingShots(true);
+    try {
+      const grouped = await clusterShots(subtitles);
+
+      // Merge back by id (the list may have changed while thumbnails decoded)
+      const groups = new Map(grouped.filter(s => s.type === 'scene').map(s => [s.id, s.shotGroup]));
+      setSubtitles(prev => prev.map(item => {
+        if (!groups.has(item.id)) return item;
+        const clean = { ...item, shotGroup: groups.get(item.id) };
+        if (!clean.shotGroup) delete clean.shotGroup;
+        return clean;
+      }));
+    } catch (error) {
+      console.error("Shot grouping failed", error);
+      alert("Could not group shots from the scene thumbnails.");
+    } finally {
+      setIsGroupingShots(false);
+    }
+  };
+
+  // Describe all scenes: AI text for every scene still labelled "Visual Scene N".
+  // Failed or cancelled scenes keep their placeholder, so running again (or retrying) resumes the job.
+  const handleDescribeScenes = async (retryIds: string[] = []) => {
+    if (isDescribing) return;
+
+    const retry = new Set(retryIds);
+    let working: SceneDescriptionTask[] = retry.size > 0
+      ? describeTasks.map(t => retry.has(t.sceneId) ? { ...t, status: 'pending', error: undefined } : t)
+      : planSceneDescriptions(subtitles);
+    const controller = new AbortController();
+    const update = (sceneId: string, patch: Partial<SceneDescriptionTask>) => {
+      if (describeAbortRef.current !== controller) return; // Superseded by a new video
+      working = working.map(t => t.sceneId === sceneId ? { ...t, ...patch } : t);
+      setDescribeTasks(working);
+    };
+    setDescribeTasks(working);
+
+    const scenes = new Map<string, SubtitleNode>(subtitles.filter(s => s.type === 'scene').map(s => [s.id, s]));
+    const pending = working.filter(t => t.status === 'pending').map(t => t.sceneId);
+    const frameCount = analysisSettings.describeFrameCount;
+    // Frames come from the video unless the thumbnail alone is enough
+    const needsVideo = pending.some(id => frameCount > 1 || !scenes.get(id)?.thumbnail);
+    const sampler = needsVideo && videoState.fileObj ? createFrameSampler(videoState.fileObj) : null;
+
+    describeAbortRef.current = controller;
+    setIsDescribing(true);
+    try {
+      await runWithConcurrency(pending, analysisSettings.describeConcurrency, async (sceneId) => {
+        const scene = scenes.get(sceneId);
+        if (!scene) {
+          update(sceneId, { status: 'error', error: 'Scene no longer exists' });
+          return;
+        }
+        update(sceneId, { status: 'running', error: undefined });
+        try {
+          let frames: string[];
+          if (frameCount === 1 && scene.thumbnail) {
+            frames = [scene.thumbnail];
+          } else {
+            if (!sampler) throw new Error("Load the video to sample frames from this scene");
+            frames = await sampler.capture(scene.timestamp, sceneEnd(scene, subtitles, videoState.duration), frameCount);
+          }
+          const text = await provider.describeScene(frames, controller.signal);
+          if (describeAbortRef.current !== controller) return;
+
+          // Scenes renamed by hand while the request ran keep the user's text
+          setSubtitles(prev => prev.map(s => s.id === sceneId && isPlaceholderSceneText(s.text) ? { ...s, text } : s));
+          update(sceneId, { status: 'done' });
+        } catch (error) {
+          if (isAbortError(error) || controller.signal.aborted) {
+            update(sceneId, { status: 'error', error: 'Cancelled' });
+            return;
+          }
+          console.error(`Describing scene at ${scene.timestamp}s failed`, error);
+          update(sceneId, { status: 'error', error: describeError(error) });
+        }
+      }, controller.signal);
+
+      working.filter(t => t.status === 'pending').forEach(t => update(t.sceneId, { status: 'error', error: 'Cancelled' }));
+    } finally {
+      sampler?.dispose();
+      if (describeAbortRef.current === controller) {
+        describeAbortRef.current = null;
+        setIsDescribing(false);
+      }
     }
   };
 
@@ -209,30 +738,34 @@ const App: React.FC = () => {
     if (subtitles.length === 0 || isTranslating) return;
     
     setIsTranslating(true);
+    setAiError(null);
     
     try {
-      // Filter only dialogues or items with text that need translation
-      const itemsToTranslate = subtitles; // Translate everything that has text
+      // Translate everything that has text, limited to the in/out range when one is set.
+      // Technical segments only carry a fixed label.
+      const itemsToTranslate = subtitles.filter(s => s.type !== 'technical' && isInRange(s, range));
       const texts = itemsToTranslate.map(s => s.text);
 
       if (texts.length === 0) return;
 
       // Call Batch API
-      const translatedTexts = await translateBatch(texts, targetLang);
+      const translatedTexts = await provider.translateBatch(texts, targetLang);
 
-      // Merge back into state
-      setSubtitles(prev => {
-        return prev.map((item, index) => {
-          if (translatedTexts[index]) {
-            return { ...item, translation: translatedTexts[index] };
-          }
-          return item;
-        });
+      setAnalysisSettings(prev => ({ ...prev, targetLanguage: targetLang }));
+
+      // Merge back into state by id (the list may have changed while the request ran)
+      const translations = new Map<string, string>();
+      itemsToTranslate.forEach((item, index) => {
+        if (translatedTexts[index]) translations.set(item.id, translatedTexts[index]);
       });
+      setSubtitles(prev => prev.map(item => {
+        const translation = translations.get(item.id);
+        return translation ? { ...item, translation } : item;
+      }));
 
     } catch (e) {
       console.error("Batch translation failed", e);
-      alert("Batch translation failed. Try again.");
+      setAiError({ title: "Batch translation failed", message: describeError(e), onRetry: () => aiActionsRef.current?.batchTranslate(targetLang) });
     } finally {
       setIsTranslating(false);
     }
@@ -242,22 +775,118 @@ const App: React.FC = () => {
     setSubtitles(prev => prev.filter(s => s.id !== id));
   };
 
+  const handleUpdateSubtitle = (id: string, patch: Partial<SubtitleNode>) => {
+    setSubtitles(prev => prev.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
   const handleDownload = () => {
     if (subtitles.length === 0) return;
 
-    const dataStr = JSON.stringify(subtitles, null, 2);
-    const blob = new Blob([dataStr], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    
-    const link = document.createElement('a');
-    link.href = url;
-    const baseName = videoState.fileName ? videoState.fileName.split('.')[0] : 'scene_sync';
-    link.download = `${baseName}_analysis.json`;
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    const project = createProjectFile(
+      subtitles,
+      { fileName: videoState.fileName, duration: videoState.duration, fingerprint: videoFingerprint },
+      analysisSettings
+    );
+    const dataStr = JSON.stringify(project, null, 2);
+    downloadTextFile(dataStr, `${getBaseName(videoState.fileName)}_analysis.json`, "application/json");
+  };
+
+  const handleExportSrt = (options: SubtitleExportOptions) => {
+    const suffix = options.textField === 'translation' ? '_translated' : '';
+    downloadTextFile(
+      exportToSrt(subtitles, options),
+      `${getBaseName(videoState.fileName)}${suffix}.srt`,
+      "application/x-subrip"
+    );
+  };
+
+  const handleExportVtt = (options: SubtitleExportOptions) => {
+    const suffix = options.textField === 'translation' ? '_translated' : '';
+    downloadTextFile(
+      exportToVtt(subtitles, { ...DEFAULT_VTT_OPTIONS, ...options }),
+      `${getBaseName(videoState.fileName)}${suffix}.vtt`,
+      "text/vtt"
+    );
+  };
+
+  const handleExportAss = (options: AssExportOptions) => {
+    const baseName = getBaseName(videoState.fileName);
+    const suffix = options.textField === 'translation' ? '_translated' : '';
+    downloadTextFile(
+      exportToAss(subtitles, options, baseName),
+      `${baseName}${suffix}.ass`,
+      "text/x-ssa"
+    );
+  };
+
+  // Editors want the real picture size in the FCPXML format resource
+  const withVideoSize = (options: NleExportOptions): NleExportOptions => {
+    const video = playerRef.current?.videoElement;
+    if (!video || !video.videoWidth || !video.videoHeight) return options;
+    return { ...options, width: video.videoWidth, height: video.videoHeight };
+  };
+
+  const handleExportEdl = (options: NleExportOptions) => {
+    const baseName = getBaseName(videoState.fileName);
+    downloadTextFile(
+      exportToEdl(subtitles, videoState.duration, videoState.fileName || baseName, baseName, options),
+      `${baseName}_scenes.edl`,
+      "text/plain"
+    );
+  };
+
+  const handleExportFcpxml = (options: NleExportOptions) => {
+    const baseName = getBaseName(videoState.fileName);
+    downloadTextFile(
+      exportToFcpxml(subtitles, videoState.duration, videoState.fileName || baseName, baseName, withVideoSize(options)),
+      `${baseName}_scenes.fcpxml`,
+      "application/xml"
+    );
+  };
+
+  const handleExportCueSheetCsv = (options: CueSheetOptions) => {
+    downloadTextFile(
+      exportCueSheetCsv(subtitles, options),
+      `${getBaseName(videoState.fileName)}_cue_sheet.csv`,
+      "text/csv"
+    );
+  };
+
+  const handleExportCueSheetHtml = (options: CueSheetOptions) => {
+    const baseName = getBaseName(videoState.fileName);
+    downloadTextFile(
+      exportCueSheetHtml(subtitles, videoState.fileName || baseName, options),
+      `${baseName}_cue_sheet.html`,
+      "text/html"
+    );
+  };
+
+  // One PNG per page; single-page boards keep the plain file name
+  const handleExportStoryboardPng = async (options: StoryboardOptions) => {
+    const baseName = getBaseName(videoState.fileName);
+    try {
+      const pages = await renderStoryboardPng(subtitles, videoState.fileName || baseName, options, videoState.duration || null);
+      pages.forEach((page, index) => {
+        const suffix = pages.length > 1 ? `_p${String(index + 1).padStart(2, '0')}` : '';
+        downloadBlob(page, `${baseName}_storyboard${suffix}.png`);
+      });
+    } catch (e) {
+      console.error("Storyboard export failed", e);
+      alert("Could not render the storyboard image.");
+    }
+  };
+
+  const handleExportStoryboardHtml = (options: StoryboardOptions) => {
+    const baseName = getBaseName(videoState.fileName);
+    downloadTextFile(
+      exportStoryboardHtml(subtitles, videoState.fileName || baseName, options, videoState.duration || null),
+      `${baseName}_storyboard.html`,
+      "text/html"
+    );
+  };
+
+  const cycleCaptionMode = () => {
+    setCaptionMode(prev => prev === 'off' ? 'text' : prev === 'text' ? 'translation' : 'off');
   };
 
   const formatTime = (seconds: number) => {
@@ -266,6 +895,8 @@ const App: React.FC = () => {
     return `${min}:${sec.toString().padStart(2, '0')}`;
   };
 
+  aiActionsRef.current = { analyzeScene: handleAnalyzeScene, fullAnalysis: handleFullAnalysis, batchTranslate: handleBatchTranslate };
+
   return (
     <div className="flex flex-col h-screen bg-slate-950 text-slate-200 overflow-hidden font-sans selection:bg-blue-500/30">
       
@@ -279,6 +910,17 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-4">
+          <select
+            value={analysisSettings.provider}
+            onChange={(e) => setAnalysisSettings(prev => ({ ...prev, provider: e.target.value as AnalysisProviderId }))}
+            disabled={genStatus !== GenerationStatus.IDLE || isDescribing || isTranslating}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-xs text-slate-300 disabled:opacity-50"
+            title="Backend for AI requests; the offline mock returns fixed sample results"
+          >
+            {(Object.keys(ANALYSIS_PROVIDERS) as AnalysisProviderId[]).map(id => (
+              <option key={id} value={id}>{ANALYSIS_PROVIDERS[id].label}</option>
+            ))}
+          </select>
           <input
             type="file"
             accept="video/*"
@@ -306,12 +948,42 @@ const App: React.FC = () => {
              <VideoPlayer
                 ref={playerRef}
                 src={videoState.url}
+                subtitles={subtitles}
+                captionMode={captionMode}
                 onTimeUpdate={handleTimeUpdate}
                 onDurationChange={(dur) => setVideoState(prev => ({ ...prev, duration: dur }))}
                 onEnded={() => setVideoState(prev => ({ ...prev, isPlaying: false }))}
               />
           </div>
 
+          {/* Audio Timeline */}
+          {videoState.url && (
+            <AudioTimeline
+              audioBuffer={audioBuffer}
+              isDecoding={isDecodingAudio}
+              decodeProgress={audioProgress}
+              subtitles={subtitles}
+              duration={videoState.duration}
+              currentTime={videoState.currentTime}
+              range={range}
+              onLoadAudio={handleLoadAudioTimeline}
+              onSeek={(time) => playerRef.current?.seekTo(time)}
+            />
+          )}
+
+          {/* Voice Activity Layer */}
+          {vadRegions.length > 0 && (
+            <TimelineLane
+              label="Voice activity"
+              spans={vadRegions
+                .filter(r => r.isSpeech)
+                .map(r => ({ start: r.start, end: r.end, className: 'bg-sky-500/60', title: `Speech ${formatTime(r.start)} - ${formatTime(r.end)}` }))}
+              duration={videoState.duration}
+              currentTime={videoState.currentTime}
+              onSeek={(time) => playerRef.current?.seekTo(time)}
+            />
+          )}
+
           {/* Controls Bar */}
           <div className="h-20 bg-slate-900/50 border border-slate-800 rounded-xl flex items-center px-6 justify-between backdrop-blur-sm">
             <div className="flex items-center gap-4">
@@ -325,13 +997,56 @@ const App: React.FC = () => {
               <span className="font-mono text-sm text-slate-400">
                 {formatTime(videoState.currentTime)} / {formatTime(videoState.duration)}
               </span>
+              <button
+                onClick={cycleCaptionMode}
+                disabled={!videoState.url}
+                className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-[10px] font-bold border transition-colors disabled:opacity-50 ${
+                  captionMode === 'off'
+                    ? 'text-slate-500 border-slate-700 hover:text-slate-300'
+                    : 'text-emerald-300 border-emerald-700 bg-emerald-900/30'
+                }`}
+                title="Toggle captions (Off / Original / Translation)"
+              >
+                <CaptionsIcon className="w-3.5 h-3.5" />
+                {captionMode === 'off' ? 'OFF' : captionMode === 'text' ? 'ORIG' : 'TRANS'}
+              </button>
+
+              {/* In/out range */}
+              <div className="flex items-center gap-1 text-[10px] font-bold">
+                <button
+                  onClick={handleMarkIn}
+                  disabled={!videoState.url}
+                  className="px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-amber-300 hover:border-amber-700 disabled:opacity-50"
+                  title="Set the in point at the current time"
+                >
+                  IN
+                </button>
+                <button
+                  onClick={handleMarkOut}
+                  disabled={!videoState.url}
+                  className="px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-amber-300 hover:border-amber-700 disabled:opacity-50"
+                  title="Set the out point at the current time"
+                >
+                  OUT
+                </button>
+                {range && (
+                  <button
+                    onClick={() => setRange(null)}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md border border-amber-700 bg-amber-900/30 text-amber-300 font-mono"
+                    title="Analysis is limited to this range. Click to clear."
+                  >
+                    <RangeIcon className="w-3 h-3" />
+                    {formatTime(range.start)}-{formatTime(range.end)} &times;
+                  </button>
+                )}
+              </div>
             </div>
 
             <div className="flex gap-3">
               {/* 1. Visual Scene Detection */}
               <button
                 onClick={handleVisualSceneDetection}
-                disabled={!videoState.url || genStatus !== GenerationStatus.IDLE}
+                disabled={!videoState.url || genStatus !== GenerationStatus.IDLE || isDescribing}
                 className={`
                   flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border transition-all disabled:opacity-50
                   ${genStatus === GenerationStatus.PROCESSING_VIDEO 
@@ -342,7 +1057,8 @@ const App: React.FC = () => {
                  {genStatus === GenerationStatus.PROCESSING_VIDEO ? (
                    <span className="flex items-center gap-2">
                      <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                     {progress}%
+                     {sceneAudioProgress !== null ? `Audio cues ${sceneAudioProgress}%` : `${progress}%`}
+                     {sceneFps > 0 && <span className="font-mono text-xs text-orange-400/80">{Math.round(sceneFps)} fps</span>}
                    </span>
                  ) : (
                     <>
@@ -351,6 +1067,59 @@ const App: React.FC = () => {
                     </>
                  )}
               </button>
+              {genStatus === GenerationStatus.PROCESSING_VIDEO && (
+                <button
+                  onClick={() => sceneAbortRef.current?.abort()}
+                  className="px-3 py-2 rounded-lg text-sm font-medium text-slate-400 hover:text-red-300 hover:bg-slate-800 border border-transparent hover:border-slate-700 transition-all"
+                  title="Stop scanning and keep the scenes found so far"
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={handleGroupShots}
+                disabled={isGroupingShots || genStatus !== GenerationStatus.IDLE || subtitles.filter(s => s.type === 'scene' && s.thumbnail).length < 2}
+                className="px-3 py-2 rounded-lg text-sm font-medium text-slate-300 hover:bg-slate-800 border border-transparent hover:border-slate-700 transition-all disabled:opacity-50"
+                title="Group similar-looking scenes into camera setups (shot-reverse-shot, recurring locations)"
+              >
+                {isGroupingShots ? 'Grouping...' : 'Group Shots'}
+              </button>
+              <SceneSettingsMenu
+                settings={analysisSettings}
+                disabled={genStatus !== GenerationStatus.IDLE}
+                onChange={(patch) => setAnalysisSettings(prev => ({ ...prev, ...patch }))}
+              />
+
+              {/* Describe every detected scene */}
+              <button
+                onClick={() => handleDescribeScenes()}
+                disabled={isDescribing || genStatus !== GenerationStatus.IDLE || !subtitles.some(s => s.type === 'scene' && isPlaceholderSceneText(s.text))}
+                className="px-3 py-2 rounded-lg text-sm font-medium text-slate-300 hover:bg-slate-800 border border-transparent hover:border-slate-700 transition-all disabled:opacity-50"
+                title="Replace the 'Visual Scene N' placeholders with AI descriptions"
+              >
+                {isDescribing ? (
+                  <span className="animate-pulse">
+                    Describing...
+                    <span className="font-mono text-xs ml-1">
+                      {describeTasks.filter(t => t.status === 'done' || t.status === 'error').length}/{describeTasks.filter(t => t.status !== 'skipped').length}
+                    </span>
+                  </span>
+                ) : 'Describe Scenes'}
+              </button>
+              {isDescribing && (
+                <button
+                  onClick={() => describeAbortRef.current?.abort()}
+                  className="px-3 py-2 rounded-lg text-sm font-medium text-slate-400 hover:text-red-300 hover:bg-slate-800 border border-transparent hover:border-slate-700 transition-all"
+                  title="Stop now; unfinished scenes can be resumed later"
+                >
+                  Cancel
+                </button>
+              )}
+              <DescribeSettingsMenu
+                settings={analysisSettings}
+                disabled={isDescribing}
+                onChange={(patch) => setAnalysisSettings(prev => ({ ...prev, ...patch }))}
+              />
 
               {/* 2. Single Snapshot */}
               <button
@@ -361,6 +1130,39 @@ const App: React.FC = () => {
                 Single Snapshot
               </button>
 
+              {/* Loudness (local measurement) */}
+              <button
+                onClick={handleMeasureLoudness}
+                disabled={!videoState.url || isMeasuringLoudness}
+                className="px-4 py-2 rounded-lg text-sm font-medium text-slate-300 hover:bg-slate-800 border border-transparent hover:border-slate-700 transition-all disabled:opacity-50"
+                title="Measure EBU R128 loudness of the programme and every segment"
+              >
+                {isMeasuringLoudness ? (
+                  <span className="animate-pulse">
+                    Measuring...
+                    <span className="font-mono text-xs ml-1">{loudnessProgress}%</span>
+                  </span>
+                ) : 'Loudness'}
+              </button>
+              {isMeasuringLoudness && (
+                <button
+                  onClick={() => loudnessAbortRef.current?.abort()}
+                  className="px-3 py-2 rounded-lg text-sm font-medium text-slate-400 hover:text-red-300 hover:bg-slate-800 border border-transparent hover:border-slate-700 transition-all"
+                  title="Stop measuring; segment loudness is left unchanged"
+                >
+                  Cancel
+                </button>
+              )}
+              {programLoudness && !isMeasuringLoudness && (
+                <button
+                  onClick={() => setShowLoudnessReport(true)}
+                  className="self-center font-mono text-xs text-slate-400 hover:text-white"
+                  title="Open loudness report"
+                >
+                  {programLoudness.integratedLufs === null ? '-inf' : programLoudness.integratedLufs.toFixed(1)} LUFS
+                </button>
+              )}
+
               {/* 3. Full Audio Analysis */}
               <button
                 onClick={handleFullAnalysis}
@@ -374,7 +1176,9 @@ const App: React.FC = () => {
                 `}
               >
                 {genStatus === GenerationStatus.PROCESSING_AUDIO && (
-                  <span className="animate-pulse">Extracting Audio...</span>
+                  <span className="animate-pulse">
+                    Extracting Audio...{isDecodingAudio && audioProgress > 0 && <span className="font-mono text-xs ml-1">{audioProgress}%</span>}
+                  </span>
                 )}
                 {genStatus === GenerationStatus.ANALYZING_AI && (
                   <>
@@ -383,6 +1187,11 @@ const App: React.FC = () => {
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
                     Analyzing AI...
+                    {chunks.length > 1 && (
+                      <span className="font-mono text-xs">
+                        {chunks.filter(c => c.status === 'done' || c.status === 'error').length}/{chunks.length}
+                      </span>
+                    )}
                   </>
                 )}
                 {genStatus === GenerationStatus.SUCCESS && "Complete!"}
@@ -393,8 +1202,52 @@ const App: React.FC = () => {
                   </>
                 )}
               </button>
+
+              {(genStatus === GenerationStatus.PROCESSING_AUDIO || genStatus === GenerationStatus.ANALYZING_AI) && (
+                <button
+                  onClick={() => analysisAbortRef.current?.abort()}
+                  className="px-3 py-2 rounded-lg text-sm font-medium text-slate-400 hover:text-red-300 hover:bg-slate-800 border border-transparent hover:border-slate-700 transition-all"
+                  title="Stop after the current request; unfinished chunks can be retried"
+                >
+                  Cancel
+                </button>
+              )}
+
+              <ChunkSettingsMenu
+                settings={analysisSettings}
+                disabled={genStatus !== GenerationStatus.IDLE}
+                onChange={(patch) => setAnalysisSettings(prev => ({ ...prev, ...patch }))}
+              />
             </div>
           </div>
+
+          {aiError && (
+            <ErrorBanner
+              error={aiError}
+              canRetry={genStatus === GenerationStatus.IDLE && !isTranslating && !isDescribing}
+              onDismiss={() => setAiError(null)}
+            />
+          )}
+
+          {chunks.length > 0 && (
+            <ChunkProgress
+              chunks={chunks}
+              canRetry={genStatus === GenerationStatus.IDLE}
+              repairCount={listRunRepairs(chunks, mergeRepairs).length}
+              onRetry={handleRetryChunk}
+              onShowRepairs={handleShowRepairs}
+              onDismiss={handleDismissChunks}
+            />
+          )}
+
+          {describeTasks.length > 0 && (
+            <DescribeProgress
+              tasks={describeTasks}
+              canRetry={!isDescribing}
+              onRetry={handleDescribeScenes}
+              onDismiss={() => setDescribeTasks([])}
+            />
+          )}
         </section>
 
         {/* Right: Subtitles/Output */}
@@ -426,11 +1279,11 @@ const App: React.FC = () => {
                  </button>
               </div>
 
-               {/* Hidden JSON Input */}
+               {/* Hidden JSON / SRT Input */}
                <input
                 type="file"
-                accept=".json"
-                onChange={handleJsonUpload}
+                accept=".json,.srt"
+                onChange={handleImportFile}
                 ref={jsonInputRef}
                 className="hidden"
               />
@@ -438,7 +1291,7 @@ const App: React.FC = () => {
               <button
                 onClick={() => jsonInputRef.current?.click()}
                 className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
-                title="Load JSON Results"
+                title="Load JSON Results or SRT"
               >
                 <ImportIcon className="w-4 h-4" />
               </button>
@@ -451,6 +1304,36 @@ const App: React.FC = () => {
               >
                 <DownloadIcon className="w-4 h-4" />
               </button>
+
+              <AssExportMenu
+                disabled={subtitles.length === 0}
+                onExport={handleExportAss}
+              />
+
+              <CueSheetMenu
+                disabled={!subtitles.some(s => s.type === 'music')}
+                onExportCsv={handleExportCueSheetCsv}
+                onExportHtml={handleExportCueSheetHtml}
+              />
+
+              <StoryboardMenu
+                disabled={!subtitles.some(s => s.type === 'scene')}
+                sceneCount={subtitles.filter(s => s.type === 'scene').length}
+                onExportPng={handleExportStoryboardPng}
+                onExportHtml={handleExportStoryboardHtml}
+              />
+
+              <NleExportMenu
+                disabled={subtitles.length === 0}
+                onExportEdl={handleExportEdl}
+                onExportFcpxml={handleExportFcpxml}
+              />
+
+              <ExportMenu
+                disabled={subtitles.length === 0}
+                onExportSrt={handleExportSrt}
+                onExportVtt={handleExportVtt}
+              />
             </div>
           </div>
           
@@ -462,11 +1345,27 @@ const App: React.FC = () => {
                 playerRef.current?.seekTo(time);
               }}
               onDelete={handleDeleteSubtitle}
+              onUpdate={handleUpdateSubtitle}
+              onSetRange={handleSetSceneRange}
             />
           </div>
         </aside>
 
       </main>
+
+      {showLoudnessReport && programLoudness && (
+        <LoudnessReport
+          program={programLoudness}
+          subtitles={subtitles}
+          onJumpTo={(time) => playerRef.current?.seekTo(time)}
+          onDownload={handleDownloadLoudnessReport}
+          onClose={() => setShowLoudnessReport(false)}
+        />
+      )}
+
+      {importReport && (
+        <ImportReport report={importReport} onClose={() => setImportReport(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { AssExportOptions, AssEmotionMode, DEFAULT_ASS_OPTIONS } from '../utils/subtitleFormats';
+import { DownloadIcon } from './Icons';
+import Popover from './Popover';
+
+interface AssExportMenuProps {
+  disabled: boolean;
+  onExport: (options: AssExportOptions) => void;
+}
+
+const RESOLUTIONS = [
+  { label: '720p', x: 1280, y: 720 },
+  { label: '1080p', x: 1920, y: 1080 },
+  { label: '2160p', x: 3840, y: 2160 },
+];
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded px-2 py-1";
+const labelClass = "block text-[10px] uppercase tracking-wider font-bold text-slate-500 mb-1";
+
+const AssExportMenu: React.FC<AssExportMenuProps> = ({ disabled, onExport }) => {
+  const [options, setOptions] = useState<AssExportOptions>(DEFAULT_ASS_OPTIONS);
+
+  const update = <K extends keyof AssExportOptions>(key: K, value: AssExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const numberField = (key: 'fontSize' | 'marginL' | 'marginR' | 'marginV', label: string) => (
+    <div>
+      <span className={labelClass}>{label}</span>
+      <input
+        type="number"
+        min={0}
+        value={options[key]}
+        onChange={(e) => update(key, Math.max(0, parseInt(e.target.value, 10) || 0))}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <Popover
+      label={<><DownloadIcon className="w-4 h-4" />ASS</>}
+      title="Export Advanced SubStation (.ass)"
+      disabled={disabled}
+      widthClass="w-64"
+    >
+      {(close) => (
+        <>
+          <div>
+            <span className={labelClass}>Resolution</span>
+            <select
+              value={`${options.playResX}x${options.playResY}`}
+              onChange={(e) => {
+                const res = RESOLUTIONS.find(r => `${r.x}x${r.y}` === e.target.value);
+                if (res) setOptions(prev => ({ ...prev, playResX: res.x, playResY: res.y }));
+              }}
+              className={inputClass}
+            >
+              {RESOLUTIONS.map(r => (
+                <option key={r.label} value={`${r.x}x${r.y}`}>{r.label} ({r.x}x{r.y})</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <span className={labelClass}>Font</span>
+              <input
+                type="text"
+                value={options.fontName}
+                onChange={(e) => update('fontName', e.target.value.replace(/,/g, ''))}
+                className={inputClass}
+              />
+            </div>
+            {numberField('fontSize', 'Size')}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {numberField('marginL', 'Left')}
+            {numberField('marginR', 'Right')}
+            {numberField('marginV', 'Vertical')}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <span className={labelClass}>Text</span>
+              <select
+                value={options.textField}
+                onChange={(e) => update('textField', e.target.value as AssExportOptions['textField'])}
+                className={inputClass}
+              >
+                <option value="text">Original</option>
+                <option value="translation">Translation</option>
+              </select>
+            </div>
+            <div>
+              <span className={labelClass}>Emotion</span>
+              <select
+                value={options.emotionMode}
+                onChange={(e) => update('emotionMode', e.target.value as AssEmotionMode)}
+                className={inputClass}
+              >
+                <option value="none">Omit</option>
+                <option value="comment">Comment</option>
+                <option value="actor">Actor field</option>
+              </select>
+            </div>
+          </div>
+
+          <button
+            onClick={() => { onExport(options); close(); }}
+            disabled={!options.fontName.trim()}
+            className="px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-left disabled:opacity-30"
+          >
+            Download .ass
+          </button>
+        </>
+      )}
+    </Popover>
+  );
+};
+
+export default AssExportMenu;
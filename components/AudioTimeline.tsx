@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { SubtitleNode, AnalysisRange } from '../types';
+import { computePeaks } from '../utils/audioUtils';
+import { computeSpectrogram } from '../utils/spectral';
+
+interface AudioTimelineProps {
+  audioBuffer: AudioBuffer | null;
+  isDecoding: boolean;
+  decodeProgress: number; // 0-100
+  subtitles: SubtitleNode[];
+  duration: number;
+  currentTime: number;
+  range: AnalysisRange | null;
+  onLoadAudio: () => void;
+  onSeek: (time: number) => void;
+}
+
+// Canvas resolution; the canvases are stretched to the container width
+const WAVEFORM_WIDTH = 2000;
+const WAVEFORM_HEIGHT = 64;
+const SPECTROGRAM_COLUMNS = 1000;
+const SPECTROGRAM_HEIGHT = 64;
+const SPECTROGRAM_FFT_SIZE = 512;
+const SPECTROGRAM_RANGE_DB = 80; // Dynamic range shown below the loudest bin
+
+const SEGMENT_CLASS: Record<SubtitleNode['type'], string> = {
+  dialogue: 'bg-blue-500/25 border-blue-400/60',
+  music: 'bg-purple-500/25 border-purple-400/60',
+  scene: 'bg-slate-400/10 border-slate-400/40',
+  technical: 'bg-zinc-950/60 border-zinc-500/60',
+};
+
+const formatTime = (seconds: number) => {
+  const min = Math.floor(seconds / 60);
+  const sec = Math.floor(seconds % 60);
+  return `${min}:${sec.toString().padStart(2, '0')}`;
+};
+
+// Dark blue -> purple -> orange -> yellow, similar to "magma"
+function heatColor(value: number): [number, number, number] {
+  const v = Math.min(1, Math.max(0, value));
+  const r = Math.round(255 * Math.min(1, v * 1.8));
+  const g = Math.round(255 * Math.max(0, v * 1.6 - 0.6));
+  const b = Math.round(255 * (v < 0.5 ? 0.25 + v : Math.max(0, 1.5 - 2 * v)));
+  return [r, g, b];
+}
+
+/**
+ * Waveform + spectrogram of the decoded audio with segment spans, a playhead and click-to-seek.
+ */
+const AudioTimeline: React.FC<AudioTimelineProps> = ({
+  audioBuffer, isDecoding, decodeProgress, subtitles, duration, currentTime, range, onLoadAudio, onSeek
+}) => {
+  const waveformRef = useRef<HTMLCanvasElement>(null);
+  const spectrogramRef = useRef<HTMLCanvasElement>(null);
+
+  const peaks = useMemo(
+    () => audioBuffer ? computePeaks(audioBuffer, WAVEFORM_WIDTH) : null,
+    [audioBuffer]
+  );
+  const spectrogram = useMemo(
+    () => audioBuffer ? computeSpectrogram(audioBuffer.getChannelData(0), SPECTROGRAM_COLUMNS, SPECTROGRAM_FFT_SIZE) : null,
+    [audioBuffer]
+  );
+
+  // Draw waveform
+  useEffect(() => {
+    const canvas = waveformRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !peaks) return;
+
+    ctx.clearRect(0, 0, WAVEFORM_WIDTH, WAVEFORM_HEIGHT);
+    ctx.fillStyle = '#38bdf8';
+    const mid = WAVEFORM_HEIGHT / 2;
+    for (let x = 0; x < WAVEFORM_WIDTH; x++) {
+      const top = mid - peaks.max[x] * mid;
+      const bottom = mid - peaks.min[x] * mid;
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+  }, [peaks]);
+
+  // Draw spectrogram (low frequencies at the bottom)
+  useEffect(() => {
+    const canvas = spectrogramRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !spectrogram) return;
+
+    const { columns, bins, data, maxDb } = spectrogram;
+    const image = ctx.createImageData(columns, SPECTROGRAM_HEIGHT);
+    const floorDb = maxDb - SPECTROGRAM_RANGE_DB;
+
+    for (let x = 0; x < columns; x++) {
+      for (let y = 0; y < SPECTROGRAM_HEIGHT; y++) {
+        const bin = Math.floor(((SPECTROGRAM_HEIGHT - 1 - y) / SPECTROGRAM_HEIGHT) * bins);
+        const db = data[x * bins + bin];
+        const [r, g, b] = heatColor((db - floorDb) / SPECTROGRAM_RANGE_DB);
+        const i = (y * columns + x) * 4;
+        image.data[i] = r;
+        image.data[i + 1] = g;
+        image.data[i + 2] = b;
+        image.data[i + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [spectrogram]);
+
+  const totalDuration = duration > 0 ? duration : audioBuffer?.duration || 0;
+  const toPercent = (time: number) => `${Math.min(100, Math.max(0, (time / totalDuration) * 100))}%`;
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (totalDuration <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - rect.left) / rect.width) * totalDuration);
+  };
+
+  if (!audioBuffer) {
+    return (
+      <div className="h-12 flex items-center justify-center bg-slate-900/50 border border-dashed border-slate-800 rounded-xl">
+        <button
+          onClick={onLoadAudio}
+          disabled={isDecoding}
+          className="text-xs text-slate-400 hover:text-white disabled:opacity-50 disabled:animate-pulse"
+        >
+          {isDecoding ? `Decoding audio... ${decodeProgress}%` : 'Show waveform & spectrogram'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="relative flex flex-col bg-slate-950 border border-slate-800 rounded-xl overflow-hidden cursor-pointer select-none"
+      onClick={handleSeek}
+    >
+      <canvas ref={waveformRef} width={WAVEFORM_WIDTH} height={WAVEFORM_HEIGHT} className="w-full h-16 block" />
+      <canvas ref={spectrogramRef} width={SPECTROGRAM_COLUMNS} height={SPECTROGRAM_HEIGHT} className="w-full h-16 block" />
+
+      {/* Segment spans */}
+      {totalDuration > 0 && subtitles.map(sub => {
+        const end = sub.endTime ?? sub.timestamp + 2;
+        return (
+          <div
+            key={sub.id}
+            className={`absolute pointer-events-none border-x ${SEGMENT_CLASS[sub.type]} ${sub.type === 'scene' ? 'top-0 h-1' : 'top-0 bottom-0'}`}
+            style={{ left: toPercent(sub.timestamp), width: `calc(${toPercent(end)} - ${toPercent(sub.timestamp)})` }}
+          />
+        );
+      })}
+
+      {/* In/out range: dim everything outside it */}
+      {totalDuration > 0 && range && (
+        <>
+          <div className="absolute top-0 bottom-0 left-0 bg-black/60 pointer-events-none" style={{ width: toPercent(range.start) }} />
+          <div className="absolute top-0 bottom-0 right-0 bg-black/60 pointer-events-none" style={{ left: toPercent(range.end) }} />
+          <div
+            className="absolute top-0 bottom-0 border-x-2 border-amber-400 pointer-events-none"
+            style={{ left: toPercent(range.start), width: `calc(${toPercent(range.end)} - ${toPercent(range.start)})` }}
+          />
+        </>
+      )}
+
+      {/* Playhead */}
+      {totalDuration > 0 && (
+        <div className="absolute top-0 bottom-0 w-px bg-white pointer-events-none" style={{ left: toPercent(currentTime) }}>
+          <span className="absolute top-0 left-1 text-[9px] font-mono text-white/80 bg-black/50 px-1 rounded">
+            {formatTime(currentTime)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioTimeline;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { AudioChunk } from '../types';
+
+interface ChunkProgressProps {
+  chunks: AudioChunk[];
+  canRetry: boolean;
+  repairCount: number; // Segments fixed, remapped or dropped by validation in this run
+  onRetry: (index: number) => void;
+  onShowRepairs: () => void;
+  onDismiss: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const min = Math.floor(seconds / 60);
+  const sec = Math.floor(seconds % 60);
+  return `${min}:${sec.toString().padStart(2, '0')}`;
+};
+
+const STATUS_CLASS: Record<AudioChunk['status'], string> = {
+  pending: 'bg-slate-800 border-slate-700',
+  running: 'bg-indigo-600/60 border-indigo-400 animate-pulse',
+  done: 'bg-emerald-700/60 border-emerald-500',
+  error: 'bg-red-800/60 border-red-500',
+  skipped: 'bg-slate-900 border-slate-800 border-dashed',
+};
+
+/**
+ * One cell per audio chunk of the current analysis run; failed cells can be retried individually.
+ */
+const ChunkProgress: React.FC<ChunkProgressProps> = ({ chunks, canRetry, repairCount, onRetry, onShowRepairs, onDismiss }) => {
+  const done = chunks.filter(c => c.status === 'done').length;
+  const skipped = chunks.filter(c => c.status === 'skipped').length;
+  const failed = chunks.filter(c => c.status === 'error');
+  // Distinct reasons, so a run that hit one quota error in every cell shows it once
+  const reasons = Array.from(new Set(failed.map(c => c.error).filter((e): e is string => !!e)));
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-3 flex flex-col gap-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-slate-400">
+          Audio chunks: <span className="text-slate-200 font-medium">{done}/{chunks.length - skipped}</span>
+          {skipped > 0 && <span className="text-slate-500 ml-2">{skipped} silent, skipped</span>}
+          {failed.length > 0 && <span className="text-red-400 ml-2">{failed.length} failed</span>}
+        </span>
+        <div className="flex items-center gap-3">
+          {repairCount > 0 && (
+            <button onClick={onShowRepairs} className="text-amber-400/80 hover:text-amber-300" title="Show the segment validation log">
+              {repairCount} {repairCount === 1 ? 'repair' : 'repairs'}
+            </button>
+          )}
+          <button onClick={onDismiss} disabled={!canRetry} className="text-slate-500 hover:text-slate-300 disabled:opacity-30">
+            Dismiss
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        {chunks.map(chunk => (
+          <button
+            key={chunk.index}
+            onClick={() => chunk.status === 'error' && onRetry(chunk.index)}
+            disabled={chunk.status !== 'error' || !canRetry}
+            className={`flex-1 h-3 rounded-sm border transition-colors ${STATUS_CLASS[chunk.status]} ${
+              chunk.status === 'error' && canRetry ? 'cursor-pointer hover:bg-red-600' : 'cursor-default'
+            }`}
+            title={`Chunk ${chunk.index + 1}: ${formatTime(chunk.start)} - ${formatTime(chunk.end)} (${chunk.status})${
+              chunk.error ? `\n${chunk.error}\nClick to retry` : ''
+            }`}
+          />
+        ))}
+      </div>
+
+      {reasons.length > 0 && (
+        <p className="text-[11px] text-red-300/80 truncate" title={reasons.join('\n')}>
+          {reasons[0]}
+          {reasons.length > 1 && <span className="text-slate-500 ml-2">+{reasons.length - 1} other {reasons.length === 2 ? 'reason' : 'reasons'}</span>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ChunkProgress;
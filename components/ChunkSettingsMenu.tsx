@@ -0,0 +1,79 @@
+import React from 'react';
+import { AnalysisSettings } from '../types';
+import { MIN_CHUNK_DURATION } from '../utils/chunkedAnalysis';
+import { SettingsIcon } from './Icons';
+import Popover from './Popover';
+
+interface ChunkSettingsMenuProps {
+  settings: AnalysisSettings;
+  disabled: boolean;
+  onChange: (patch: Partial<AnalysisSettings>) => void;
+}
+
+const labelClass = "block text-[10px] uppercase tracking-wider font-bold text-slate-500 mb-1";
+
+const ChunkSettingsMenu: React.FC<ChunkSettingsMenuProps> = ({ settings, disabled, onChange }) => (
+  <Popover
+    label={<SettingsIcon className="w-4 h-4" />}
+    title="Audio analysis settings"
+    disabled={disabled}
+    placement="above"
+  >
+    {() => (
+      <>
+        <div>
+          <span className={labelClass}>Chunk length (s)</span>
+          <input
+            type="number"
+            min={MIN_CHUNK_DURATION}
+            step={30}
+            value={settings.chunkDuration}
+            onChange={(e) => {
+              const chunkDuration = Math.max(MIN_CHUNK_DURATION, parseInt(e.target.value, 10) || MIN_CHUNK_DURATION);
+              onChange({ chunkDuration, chunkOverlap: Math.min(settings.chunkOverlap, chunkDuration / 2 - 1) });
+            }}
+            className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1"
+          />
+        </div>
+        <div>
+          <span className={labelClass}>Overlap (s)</span>
+          <input
+            type="number"
+            min={0}
+            max={settings.chunkDuration / 2 - 1}
+            value={settings.chunkOverlap}
+            onChange={(e) => onChange({
+              chunkOverlap: Math.min(settings.chunkDuration / 2 - 1, Math.max(0, parseInt(e.target.value, 10) || 0))
+            })}
+            className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1"
+          />
+        </div>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.useVad}
+            onChange={(e) => onChange({ useVad: e.target.checked })}
+          />
+          Voice activity detection
+        </label>
+        <div>
+          <span className={labelClass}>Upload format</span>
+          <select
+            value={settings.audioEncoding}
+            onChange={(e) => onChange({ audioEncoding: e.target.value as AnalysisSettings['audioEncoding'] })}
+            className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1"
+          >
+            <option value="wav">WAV (uncompressed)</option>
+            <option value="flac">FLAC (lossless, ~half size)</option>
+          </select>
+        </div>
+        <p className="text-[10px] text-slate-500 leading-snug">
+          Shorter chunks are more reliable on long videos; overlap keeps sentences at chunk edges intact.
+          Voice activity skips silent stretches and aligns dialogue timing.
+        </p>
+      </>
+    )}
+  </Popover>
+);
+
+export default ChunkSettingsMenu;
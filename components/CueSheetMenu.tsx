@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { CueSheetOptions, DEFAULT_CUE_SHEET_OPTIONS } from '../utils/cueSheet';
+import { FRAME_RATES } from '../utils/timecode';
+import { MusicIcon } from './Icons';
+import Popover from './Popover';
+
+interface CueSheetMenuProps {
+  disabled: boolean;
+  onExportCsv: (options: CueSheetOptions) => void;
+  onExportHtml: (options: CueSheetOptions) => void;
+}
+
+const labelClass = "block text-[10px] uppercase tracking-wider font-bold text-slate-500 mb-1";
+
+const CueSheetMenu: React.FC<CueSheetMenuProps> = ({ disabled, onExportCsv, onExportHtml }) => {
+  const [options, setOptions] = useState<CueSheetOptions>(DEFAULT_CUE_SHEET_OPTIONS);
+
+  return (
+    <Popover
+      label={<><MusicIcon className="w-4 h-4" />CUES</>}
+      title="Export music cue sheet"
+      disabled={disabled}
+    >
+      {(close) => (
+        <>
+          <div>
+            <span className={labelClass}>Timecode</span>
+            <select
+              value={options.frameRate.label}
+              onChange={(e) => {
+                const rate = FRAME_RATES.find(r => r.label === e.target.value);
+                if (rate) setOptions(prev => ({ ...prev, frameRate: rate }));
+              }}
+              className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1"
+            >
+              {FRAME_RATES.map(rate => (
+                <option key={rate.label} value={rate.label}>{rate.label} fps</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.mergeAdjacent}
+                onChange={(e) => setOptions(prev => ({ ...prev, mergeAdjacent: e.target.checked }))}
+              />
+              Merge adjacent
+            </label>
+            <label className="flex items-center gap-1 text-slate-500">
+              gap
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={options.maxMergeGap}
+                disabled={!options.mergeAdjacent}
+                onChange={(e) => setOptions(prev => ({ ...prev, maxMergeGap: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                className="w-14 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 disabled:opacity-40"
+              />
+              s
+            </label>
+          </div>
+
+          <div className="flex flex-col gap-1 pt-2 border-t border-slate-800">
+            <button
+              onClick={() => { onExportCsv(options); close(); }}
+              className="px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-left"
+            >
+              Spreadsheet (.csv)
+            </button>
+            <button
+              onClick={() => { onExportHtml(options); close(); }}
+              className="px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-left"
+            >
+              Printable report (.html)
+            </button>
+          </div>
+        </>
+      )}
+    </Popover>
+  );
+};
+
+export default CueSheetMenu;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { SceneDescriptionTask } from '../types';
+
+interface DescribeProgressProps {
+  tasks: SceneDescriptionTask[];
+  canRetry: boolean;
+  onRetry: (sceneIds: string[]) => void;
+  onDismiss: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const min = Math.floor(seconds / 60);
+  const sec = Math.floor(seconds % 60);
+  return `${min}:${sec.toString().padStart(2, '0')}`;
+};
+
+const STATUS_CLASS: Record<SceneDescriptionTask['status'], string> = {
+  pending: 'bg-slate-800 border-slate-700',
+  running: 'bg-indigo-600/60 border-indigo-400 animate-pulse',
+  done: 'bg-emerald-700/60 border-emerald-500',
+  error: 'bg-red-800/60 border-red-500',
+  skipped: 'bg-slate-900 border-slate-800 border-dashed',
+};
+
+/**
+ * One cell per scene of the current "Describe all scenes" run; failed scenes can be retried
+ * individually or all at once.
+ */
+const DescribeProgress: React.FC<DescribeProgressProps> = ({ tasks, canRetry, onRetry, onDismiss }) => {
+  const done = tasks.filter(t => t.status === 'done').length;
+  const skipped = tasks.filter(t => t.status === 'skipped').length;
+  const failed = tasks.filter(t => t.status === 'error');
+  // Distinct reasons, so a run that hit one quota error in every cell shows it once
+  const reasons = Array.from(new Set(failed.map(t => t.error).filter((e): e is string => !!e)));
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-3 flex flex-col gap-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-slate-400">
+          Scene descriptions: <span className="text-slate-200 font-medium">{done}/{tasks.length - skipped}</span>
+          {skipped > 0 && <span className="text-slate-500 ml-2">{skipped} already described</span>}
+          {failed.length > 0 && <span className="text-red-400 ml-2">{failed.length} failed</span>}
+        </span>
+        <div className="flex items-center gap-3">
+          {failed.length > 0 && (
+            <button
+              onClick={() => onRetry(failed.map(t => t.sceneId))}
+              disabled={!canRetry}
+              className="text-red-300 hover:text-red-200 disabled:opacity-30"
+            >
+              Retry failed
+            </button>
+          )}
+          <button onClick={onDismiss} disabled={!canRetry} className="text-slate-500 hover:text-slate-300 disabled:opacity-30">
+            Dismiss
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        {tasks.map(task => (
+          <button
+            key={task.sceneId}
+            onClick={() => task.status === 'error' && onRetry([task.sceneId])}
+            disabled={task.status !== 'error' || !canRetry}
+            className={`flex-1 h-3 rounded-sm border transition-colors ${STATUS_CLASS[task.status]} ${
+              task.status === 'error' && canRetry ? 'cursor-pointer hover:bg-red-600' : 'cursor-default'
+            }`}
+            title={`Scene at ${formatTime(task.timestamp)} (${task.status})${
+              task.error ? `\n${task.error}\nClick to retry` : ''
+            }`}
+          />
+        ))}
+      </div>
+
+      {reasons.length > 0 && (
+        <p className="text-[11px] text-red-300/80 truncate" title={reasons.join('\n')}>
+          {reasons[0]}
+          {reasons.length > 1 && <span className="text-slate-500 ml-2">+{reasons.length - 1} other {reasons.length === 2 ? 'reason' : 'reasons'}</span>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DescribeProgress;
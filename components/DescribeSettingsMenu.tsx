@@ -0,0 +1,59 @@
+import React from 'react';
+import { AnalysisSettings } from '../types';
+import { MAX_DESCRIBE_CONCURRENCY, MAX_DESCRIBE_FRAME_COUNT } from '../utils/sceneDescriptions';
+import { SettingsIcon } from './Icons';
+import Popover from './Popover';
+
+interface DescribeSettingsMenuProps {
+  settings: AnalysisSettings;
+  disabled: boolean;
+  onChange: (patch: Partial<AnalysisSettings>) => void;
+}
+
+const labelClass = "block text-[10px] uppercase tracking-wider font-bold text-slate-500 mb-1";
+
+const DescribeSettingsMenu: React.FC<DescribeSettingsMenuProps> = ({ settings, disabled, onChange }) => (
+  <Popover
+    label={<SettingsIcon className="w-4 h-4" />}
+    title="Scene description settings"
+    disabled={disabled}
+    placement="above"
+  >
+    {() => (
+      <>
+        <div>
+          <span className={labelClass}>Parallel requests</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_DESCRIBE_CONCURRENCY}
+            value={settings.describeConcurrency}
+            onChange={(e) => onChange({
+              describeConcurrency: Math.min(MAX_DESCRIBE_CONCURRENCY, Math.max(1, parseInt(e.target.value, 10) || 1))
+            })}
+            className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1"
+          />
+        </div>
+        <div>
+          <span className={labelClass}>Frames per scene</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_DESCRIBE_FRAME_COUNT}
+            value={settings.describeFrameCount}
+            onChange={(e) => onChange({
+              describeFrameCount: Math.min(MAX_DESCRIBE_FRAME_COUNT, Math.max(1, parseInt(e.target.value, 10) || 1))
+            })}
+            className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1"
+          />
+        </div>
+        <p className="text-[10px] text-slate-500 leading-snug">
+          One frame sends the scene thumbnail; more frames are sampled across the scene from the video,
+          which describes action better but costs more per request. Scenes that already have a description are skipped.
+        </p>
+      </>
+    )}
+  </Popover>
+);
+
+export default DescribeSettingsMenu;
@@ -0,0 +1,41 @@
+import React from 'react';
+
+export interface ErrorBannerData {
+  title: string;
+  message: string;
+  onRetry?: () => void;
+}
+
+interface ErrorBannerProps {
+  error: ErrorBannerData;
+  canRetry: boolean;
+  onDismiss: () => void;
+}
+
+/**
+ * Inline notice for a failed one-off AI action, with the classified reason and a retry button.
+ */
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, canRetry, onDismiss }) => (
+  <div className="bg-red-950/40 border border-red-900/60 rounded-xl px-4 py-3 flex items-start gap-3 text-xs">
+    <div className="flex-1 min-w-0">
+      <span className="block font-medium text-red-300">{error.title}</span>
+      <p className="text-red-200/70 mt-0.5 break-words">{error.message}</p>
+    </div>
+    <div className="flex items-center gap-3 flex-shrink-0">
+      {error.onRetry && (
+        <button
+          onClick={() => { onDismiss(); error.onRetry?.(); }}
+          disabled={!canRetry}
+          className="text-red-300 hover:text-red-200 disabled:opacity-30"
+        >
+          Retry
+        </button>
+      )}
+      <button onClick={onDismiss} className="text-slate-500 hover:text-slate-300">
+        Dismiss
+      </button>
+    </div>
+  </div>
+);
+
+export default ErrorBanner;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { SubtitleNode } from '../types';
+import { SubtitleExportOptions, DEFAULT_EXPORT_OPTIONS } from '../utils/subtitleFormats';
+import { DownloadIcon } from './Icons';
+import Popover from './Popover';
+
+interface ExportMenuProps {
+  disabled: boolean;
+  onExportSrt: (options: SubtitleExportOptions) => void;
+  onExportVtt: (options: SubtitleExportOptions) => void;
+}
+
+const NODE_TYPES: SubtitleNode['type'][] = ['dialogue', 'music', 'scene'];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, onExportSrt, onExportVtt }) => {
+  const [options, setOptions] = useState<SubtitleExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+  const toggleType = (type: SubtitleNode['type']) => {
+    setOptions(prev => ({
+      ...prev,
+      types: prev.types.includes(type)
+        ? prev.types.filter(t => t !== type)
+        : [...prev.types, type]
+    }));
+  };
+
+  return (
+    <Popover
+      label={<><DownloadIcon className="w-4 h-4" />SUBS</>}
+      title="Export Subtitles"
+      disabled={disabled}
+    >
+      {(close) => (
+        <>
+          <div>
+            <span className="block text-[10px] uppercase tracking-wider font-bold text-slate-500 mb-1">Text</span>
+            <select
+              value={options.textField}
+              onChange={(e) => setOptions(prev => ({ ...prev, textField: e.target.value as SubtitleExportOptions['textField'] }))}
+              className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1"
+            >
+              <option value="text">Original</option>
+              <option value="translation">Translation</option>
+            </select>
+          </div>
+
+          <div>
+            <span className="block text-[10px] uppercase tracking-wider font-bold text-slate-500 mb-1">Include</span>
+            <div className="flex flex-col gap-1">
+              {NODE_TYPES.map(type => (
+                <label key={type} className="flex items-center gap-2 capitalize">
+                  <input
+                    type="checkbox"
+                    checked={options.types.includes(type)}
+                    onChange={() => toggleType(type)}
+                  />
+                  {type}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.includeSpeaker}
+              onChange={(e) => setOptions(prev => ({ ...prev, includeSpeaker: e.target.checked }))}
+            />
+            Speaker prefix
+          </label>
+
+          <div className="flex flex-col gap-1 pt-2 border-t border-slate-800">
+            <button
+              onClick={() => { onExportSrt(options); close(); }}
+              disabled={options.types.length === 0}
+              className="px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-left disabled:opacity-30"
+            >
+              SubRip (.srt)
+            </button>
+            <button
+              onClick={() => { onExportVtt(options); close(); }}
+              disabled={options.types.length === 0}
+              className="px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-left disabled:opacity-30"
+            >
+              WebVTT (.vtt)
+            </button>
+          </div>
+        </>
+      )}
+    </Popover>
+  );
+};
+
+export default ExportMenu;
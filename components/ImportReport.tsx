@@ -0,0 +1,96 @@
+import React from 'react';
+import { ImportIssue } from '../utils/projectFile';
+
+export interface ImportReportData {
+  title: string;
+  summary: string;
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+  confirmLabel?: string; // Omitted when there is nothing to import
+  onConfirm?: () => void;
+  secondaryLabel?: string; // Alternative to the confirm action, e.g. merge instead of replace
+  onSecondary?: () => void;
+}
+
+interface ImportReportProps {
+  report: ImportReportData;
+  onClose: () => void;
+}
+
+/**
+ * Modal listing every rejected field/cue of an import, with an option to load what was valid.
+ */
+const ImportReport: React.FC<ImportReportProps> = ({ report, onClose }) => {
+  const renderIssues = (issues: ImportIssue[], tone: 'error' | 'warning') => (
+    <ul className="flex flex-col gap-1">
+      {issues.map((issue, i) => (
+        <li key={i} className="flex gap-2 text-xs leading-snug">
+          <span className={`font-mono flex-shrink-0 ${tone === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+            {issue.location}
+          </span>
+          <span className="text-slate-400">{issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[80vh] flex flex-col bg-slate-900 border border-slate-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-slate-800">
+          <h3 className="font-medium text-slate-200">{report.title}</h3>
+          <p className="text-sm text-slate-400 mt-1">{report.summary}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-4">
+          {report.errors.length > 0 && (
+            <div>
+              <span className="block text-[10px] uppercase tracking-wider font-bold text-red-500 mb-2">
+                Errors ({report.errors.length})
+              </span>
+              {renderIssues(report.errors, 'error')}
+            </div>
+          )}
+          {report.warnings.length > 0 && (
+            <div>
+              <span className="block text-[10px] uppercase tracking-wider font-bold text-amber-500 mb-2">
+                Warnings ({report.warnings.length})
+              </span>
+              {renderIssues(report.warnings, 'warning')}
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-slate-800 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-300 hover:bg-slate-800 transition-colors"
+          >
+            {report.onConfirm ? 'Cancel' : 'Close'}
+          </button>
+          {report.onSecondary && (
+            <button
+              onClick={() => { report.onSecondary?.(); onClose(); }}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 hover:bg-slate-700 text-slate-200 transition-colors"
+            >
+              {report.secondaryLabel || 'Merge'}
+            </button>
+          )}
+          {report.onConfirm && (
+            <button
+              onClick={() => { report.onConfirm?.(); onClose(); }}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white transition-colors"
+            >
+              {report.confirmLabel || 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReport;
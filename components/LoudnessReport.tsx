@@ -0,0 +1,128 @@
+import React from 'react';
+import { ProgramLoudness, SubtitleNode } from '../types';
+import { DELIVERY_SPECS, checkDeliverySpec } from '../utils/loudness';
+
+interface LoudnessReportProps {
+  program: ProgramLoudness;
+  subtitles: SubtitleNode[];
+  onJumpTo: (time: number) => void;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const min = Math.floor(seconds / 60);
+  const sec = Math.floor(seconds % 60);
+  return `${min}:${sec.toString().padStart(2, '0')}`;
+};
+
+const formatLevel = (value: number | null, unit: string) =>
+  value === null ? `-inf ${unit}` : `${value.toFixed(1)} ${unit}`;
+
+/**
+ * Modal with programme loudness, delivery spec compliance and segments whose AI dynamics label is off.
+ */
+const LoudnessReport: React.FC<LoudnessReportProps> = ({ program, subtitles, onJumpTo, onDownload, onClose }) => {
+  const flagged = subtitles.filter(s => s.loudness?.dynamicsMismatch);
+
+  const stats: { label: string; value: string }[] = [
+    { label: 'Integrated', value: formatLevel(program.integratedLufs, 'LUFS') },
+    { label: 'Range', value: formatLevel(program.loudnessRangeLu, 'LU') },
+    { label: 'True peak', value: formatLevel(program.truePeakDbtp, 'dBTP') },
+    { label: 'Max short-term', value: formatLevel(program.maxShortTermLufs, 'LUFS') },
+    { label: 'Max momentary', value: formatLevel(program.maxMomentaryLufs, 'LUFS') },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[80vh] flex flex-col bg-slate-900 border border-slate-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-slate-800">
+          <h3 className="font-medium text-slate-200">Loudness report</h3>
+          <p className="text-sm text-slate-400 mt-1">
+            ITU-R BS.1770 measurement of the full programme ({formatTime(program.duration)}).
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-4">
+          <div className="grid grid-cols-3 gap-2">
+            {stats.map(stat => (
+              <div key={stat.label} className="bg-slate-950/60 border border-slate-800 rounded-lg px-3 py-2">
+                <span className="block text-[10px] uppercase tracking-wider text-slate-500">{stat.label}</span>
+                <span className="font-mono text-sm text-slate-200">{stat.value}</span>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <span className="block text-[10px] uppercase tracking-wider font-bold text-slate-500 mb-2">Delivery specs</span>
+            <ul className="flex flex-col gap-1">
+              {DELIVERY_SPECS.map(spec => {
+                const result = checkDeliverySpec(program, spec);
+                return (
+                  <li key={spec.name} className="flex items-center gap-2 text-xs">
+                    <span className={`font-bold w-10 ${result.pass ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {result.pass ? 'PASS' : 'FAIL'}
+                    </span>
+                    <span className="text-slate-300 flex-1">{spec.name}</span>
+                    <span className={`font-mono ${result.loudnessOk ? 'text-slate-500' : 'text-red-400'}`}>
+                      {spec.targetLufs} &plusmn;{spec.toleranceLu} LUFS
+                    </span>
+                    <span className={`font-mono ${result.peakOk ? 'text-slate-500' : 'text-red-400'}`}>
+                      TP &le; {spec.maxTruePeakDbtp}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <div>
+            <span className="block text-[10px] uppercase tracking-wider font-bold text-amber-500 mb-2">
+              Dynamics mismatches ({flagged.length})
+            </span>
+            {flagged.length === 0 ? (
+              <p className="text-xs text-slate-500">Every AI dynamics label agrees with the measurement.</p>
+            ) : (
+              <ul className="flex flex-col gap-1">
+                {flagged.map(s => (
+                  <li key={s.id}>
+                    <button
+                      onClick={() => onJumpTo(s.timestamp)}
+                      className="w-full flex gap-2 text-left text-xs leading-snug hover:bg-slate-800 rounded px-1"
+                    >
+                      <span className="font-mono text-purple-300 flex-shrink-0">{formatTime(s.timestamp)}</span>
+                      <span className="text-amber-400 flex-shrink-0">
+                        AI {s.musicAnalysis?.dynamics} / measured {s.loudness?.derivedDynamics}
+                      </span>
+                      <span className="text-slate-400 truncate">{s.text}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="px-5 py-3 border-t border-slate-800 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-300 hover:bg-slate-800 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={onDownload}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white transition-colors"
+          >
+            Download report
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LoudnessReport;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { NleExportOptions, DEFAULT_NLE_OPTIONS } from '../utils/nleExport';
+import { FRAME_RATES, supportsDropFrame } from '../utils/timecode';
+import { FilmIcon } from './Icons';
+import Popover from './Popover';
+
+interface NleExportMenuProps {
+  disabled: boolean;
+  onExportEdl: (options: NleExportOptions) => void;
+  onExportFcpxml: (options: NleExportOptions) => void;
+}
+
+const labelClass = "block text-[10px] uppercase tracking-wider font-bold text-slate-500 mb-1";
+
+const NleExportMenu: React.FC<NleExportMenuProps> = ({ disabled, onExportEdl, onExportFcpxml }) => {
+  const [options, setOptions] = useState<NleExportOptions>(DEFAULT_NLE_OPTIONS);
+
+  return (
+    <Popover
+      label={<><FilmIcon className="w-4 h-4" />NLE</>}
+      title="Export scene cuts for editing (EDL / FCPXML)"
+      disabled={disabled}
+    >
+      {(close) => (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <span className={labelClass}>Frame rate</span>
+              <select
+                value={options.frameRate.label}
+                onChange={(e) => {
+                  const rate = FRAME_RATES.find(r => r.label === e.target.value);
+                  if (rate) setOptions(prev => ({ ...prev, frameRate: rate, dropFrame: prev.dropFrame && supportsDropFrame(rate) }));
+                }}
+                className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1"
+              >
+                {FRAME_RATES.map(rate => (
+                  <option key={rate.label} value={rate.label}>{rate.label} fps</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-end gap-2 pb-1.5">
+              <input
+                type="checkbox"
+                checked={options.dropFrame}
+                disabled={!supportsDropFrame(options.frameRate)}
+                onChange={(e) => setOptions(prev => ({ ...prev, dropFrame: e.target.checked }))}
+              />
+              Drop-frame
+            </label>
+          </div>
+
+          <div>
+            <span className={labelClass}>Marker layers</span>
+            <div className="flex flex-col gap-1">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.includeDialogueMarkers}
+                  onChange={(e) => setOptions(prev => ({ ...prev, includeDialogueMarkers: e.target.checked }))}
+                />
+                Dialogue
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.includeMusicMarkers}
+                  onChange={(e) => setOptions(prev => ({ ...prev, includeMusicMarkers: e.target.checked }))}
+                />
+                Music
+              </label>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1 pt-2 border-t border-slate-800">
+            <button
+              onClick={() => { onExportEdl(options); close(); }}
+              className="px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-left"
+            >
+              CMX3600 EDL (.edl)
+            </button>
+            <button
+              onClick={() => { onExportFcpxml(options); close(); }}
+              className="px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-left"
+            >
+              Final Cut Pro XML (.fcpxml)
+            </button>
+          </div>
+        </>
+      )}
+    </Popover>
+  );
+};
+
+export default NleExportMenu;
@@ -0,0 +1,51 @@
+import React, { useState, useRef, useEffect } from 'react';
+
+interface PopoverProps {
+  label: React.ReactNode;
+  title: string;
+  disabled?: boolean;
+  widthClass?: string;
+  placement?: 'below' | 'above';
+  children: (close: () => void) => React.ReactNode;
+}
+
+/**
+ * Small button that toggles an options panel anchored to it.
+ */
+const Popover: React.FC<PopoverProps> = ({ label, title, disabled, widthClass = 'w-60', placement = 'below', children }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the popover
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        className="flex items-center gap-1 px-2 py-2 text-[10px] font-bold text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+        title={title}
+      >
+        {label}
+      </button>
+
+      {isOpen && (
+        <div className={`absolute right-0 ${placement === 'below' ? 'top-full mt-2' : 'bottom-full mb-2'} ${widthClass} bg-slate-900 border border-slate-700 rounded-lg shadow-xl z-20 p-3 flex flex-col gap-3 text-xs text-slate-300`}>
+          {children(() => setIsOpen(false))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Popover;
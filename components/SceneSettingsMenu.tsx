@@ -0,0 +1,150 @@
+import React from 'react';
+import { AnalysisSettings } from '../types';
+import { SCENE_PRESETS, ScenePreset, matchScenePreset } from '../utils/sceneDetection';
+import { SettingsIcon } from './Icons';
+import Popover from './Popover';
+
+interface SceneSettingsMenuProps {
+  settings: AnalysisSettings;
+  disabled: boolean;
+  onChange: (patch: Partial<AnalysisSettings>) => void;
+}
+
+const labelClass = "block text-[10px] uppercase tracking-wider font-bold text-slate-500 mb-1";
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded px-2 py-1";
+
+// Parses a number input, clamped to [min, max]; invalid input keeps the current value
+const clampInput = (raw: string, min: number, max: number, current: number) => {
+  const value = parseFloat(raw);
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : current;
+};
+
+const SceneSettingsMenu: React.FC<SceneSettingsMenuProps> = ({ settings, disabled, onChange }) => {
+  const preset = matchScenePreset(settings);
+  const isAdaptive = settings.sceneThresholdMode === 'adaptive';
+  const luminancePct = Math.round(settings.sceneLuminanceWeight * 100);
+
+  return (
+    <Popover
+      label={<SettingsIcon className="w-4 h-4" />}
+      title="Scene detection settings"
+      disabled={disabled}
+      placement="above"
+      widthClass="w-64"
+    >
+      {() => (
+        <>
+          <div>
+            <span className={labelClass}>Preset</span>
+            <select
+              value={preset ?? ''}
+              onChange={(e) => {
+                const selected = e.target.value as ScenePreset;
+                if (SCENE_PRESETS[selected]) onChange(SCENE_PRESETS[selected].options);
+              }}
+              className={inputClass}
+            >
+              {!preset && <option value="">Custom</option>}
+              {(Object.keys(SCENE_PRESETS) as ScenePreset[]).map(key => (
+                <option key={key} value={key}>{SCENE_PRESETS[key].label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <span className={labelClass}>Threshold</span>
+            <select
+              value={settings.sceneThresholdMode}
+              onChange={(e) => onChange({ sceneThresholdMode: e.target.value as AnalysisSettings['sceneThresholdMode'] })}
+              className={`${inputClass} mb-1`}
+            >
+              <option value="fixed">Fixed</option>
+              <option value="adaptive">Adaptive (rolling mean + deviation)</option>
+            </select>
+            <div className="flex gap-2">
+              <label className="flex-1">
+                <span className="text-[10px] text-slate-500">{isAdaptive ? 'Floor' : 'Diff'} (0-100)</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={settings.sceneThreshold}
+                  onChange={(e) => onChange({ sceneThreshold: clampInput(e.target.value, 1, 100, settings.sceneThreshold) })}
+                  className={inputClass}
+                />
+              </label>
+              {isAdaptive && (
+                <label className="flex-1">
+                  <span className="text-[10px] text-slate-500">Std devs</span>
+                  <input
+                    type="number"
+                    min={0.5}
+                    max={6}
+                    step={0.5}
+                    value={settings.sceneAdaptiveSensitivity}
+                    onChange={(e) => onChange({
+                      sceneAdaptiveSensitivity: clampInput(e.target.value, 0.5, 6, settings.sceneAdaptiveSensitivity)
+                    })}
+                    className={inputClass}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <label className="flex-1">
+              <span className={labelClass}>Frames/s</span>
+              <input
+                type="number"
+                min={0.5}
+                max={10}
+                step={0.5}
+                value={settings.sceneSampleFps}
+                onChange={(e) => onChange({ sceneSampleFps: clampInput(e.target.value, 0.5, 10, settings.sceneSampleFps) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex-1">
+              <span className={labelClass}>Min scene (s)</span>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                step={0.25}
+                value={settings.sceneMinLength}
+                onChange={(e) => onChange({ sceneMinLength: clampInput(e.target.value, 0, 10, settings.sceneMinLength) })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div>
+            <span className={labelClass}>Luminance {luminancePct}% / colour {100 - luminancePct}%</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              value={luminancePct}
+              onChange={(e) => onChange({ sceneLuminanceWeight: parseInt(e.target.value, 10) / 100 })}
+              className="w-full"
+            />
+          </div>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.useAudioBoundaries}
+              onChange={(e) => onChange({ useAudioBoundaries: e.target.checked })}
+            />
+            Use audio cues
+          </label>
+          <p className="text-[10px] text-slate-500 leading-snug">
+            Adaptive mode raises the threshold during busy footage and falls back to the floor in static shots.
+            Audio cues (silence gaps, sudden changes in the soundtrack) confirm cuts the picture alone misses
+            and veto flashes over continuous sound; the audio track is decoded on first use.
+          </p>
+        </>
+      )}
+    </Popover>
+  );
+};
+
+export default SceneSettingsMenu;
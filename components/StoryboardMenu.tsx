@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { StoryboardOptions, DEFAULT_STORYBOARD_OPTIONS } from '../utils/storyboard';
+import { FRAME_RATES } from '../utils/timecode';
+import { GridIcon } from './Icons';
+import Popover from './Popover';
+
+interface StoryboardMenuProps {
+  disabled: boolean;
+  sceneCount: number;
+  onExportPng: (options: StoryboardOptions) => void;
+  onExportHtml: (options: StoryboardOptions) => void;
+}
+
+const labelClass = "block text-[10px] uppercase tracking-wider font-bold text-slate-500 mb-1";
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded px-2 py-1";
+
+const StoryboardMenu: React.FC<StoryboardMenuProps> = ({ disabled, sceneCount, onExportPng, onExportHtml }) => {
+  const [options, setOptions] = useState<StoryboardOptions>(DEFAULT_STORYBOARD_OPTIONS);
+  const perPage = options.columns * options.rowsPerPage;
+  const pageCount = Math.ceil(sceneCount / perPage);
+
+  return (
+    <Popover
+      label={<><GridIcon className="w-4 h-4" />BOARD</>}
+      title="Export storyboard / contact sheet"
+      disabled={disabled}
+    >
+      {(close) => (
+        <>
+          <div className="flex gap-2">
+            <label className="flex-1">
+              <span className={labelClass}>Columns</span>
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={options.columns}
+                onChange={(e) => setOptions(prev => ({ ...prev, columns: Math.min(8, Math.max(1, parseInt(e.target.value, 10) || 1)) }))}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex-1">
+              <span className={labelClass}>Rows / page</span>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={options.rowsPerPage}
+                onChange={(e) => setOptions(prev => ({ ...prev, rowsPerPage: Math.min(10, Math.max(1, parseInt(e.target.value, 10) || 1)) }))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div>
+            <span className={labelClass}>Timecode</span>
+            <select
+              value={options.frameRate.label}
+              onChange={(e) => {
+                const rate = FRAME_RATES.find(r => r.label === e.target.value);
+                if (rate) setOptions(prev => ({ ...prev, frameRate: rate }));
+              }}
+              className={inputClass}
+            >
+              {FRAME_RATES.map(rate => (
+                <option key={rate.label} value={rate.label}>{rate.label} fps</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.includeDialogue}
+              onChange={(e) => setOptions(prev => ({ ...prev, includeDialogue: e.target.checked }))}
+            />
+            Dialogue excerpt
+          </label>
+
+          <p className="text-[10px] text-slate-500">
+            {sceneCount} {sceneCount === 1 ? 'scene' : 'scenes'} on {pageCount} {pageCount === 1 ? 'page' : 'pages'}
+          </p>
+
+          <div className="flex flex-col gap-1 pt-2 border-t border-slate-800">
+            <button
+              onClick={() => { onExportPng(options); close(); }}
+              className="px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-left"
+            >
+              Image{pageCount > 1 ? ' per page' : ''} (.png)
+            </button>
+            <button
+              onClick={() => { onExportHtml(options); close(); }}
+              className="px-2 py-1.5 rounded bg-slate-800 hover:bg-slate-700 text-left"
+            >
+              Printable page (.html)
+            </button>
+          </div>
+        </>
+      )}
+    </Popover>
+  );
+};
+
+export default StoryboardMenu;
@@ -1,13 +1,17 @@
 
-import React, { useEffect, useRef } from 'react';
-import { SubtitleNode } from '../types';
-import { TrashIcon, TranslateIcon } from './Icons';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SubtitleNode, MusicCueInfo, SceneBoundary, SceneTransition } from '../types';
+import { TrashIcon, TranslateIcon, RangeIcon } from './Icons';
+import { MIN_TEMPO_CONFIDENCE } from '../utils/tempo';
+import { shotGroupsByNode } from '../utils/shotClustering';
 
 interface SubtitleListProps {
   subtitles: SubtitleNode[];
   currentTime: number;
   onJumpTo: (time: number) => void;
   onDelete: (id: string) => void;
+  onUpdate: (id: string, patch: Partial<SubtitleNode>) => void;
+  onSetRange: (node: SubtitleNode) => void; // Marks a scene as the in/out range
 }
 
 const formatTime = (seconds: number) => {
@@ -16,8 +20,51 @@ const formatTime = (seconds: number) => {
   return `${min}:${sec.toString().padStart(2, '0')}`;
 };
 
-const SubtitleList: React.FC<SubtitleListProps> = ({ subtitles, currentTime, onJumpTo, onDelete }) => {
+// Measurements are null when the segment is below the -70 LUFS gate
+const formatLevel = (value: number | null, unit: string) =>
+  value === null ? `-inf ${unit}` : `${value.toFixed(1)} ${unit}`;
+
+const TRIGGER_LABELS: Record<SceneBoundary['trigger'], string> = { visual: 'Visual', audio: 'Audio', both: 'Visual + audio' };
+const TRIGGER_CLASSES: Record<SceneBoundary['trigger'], string> = {
+  visual: 'bg-slate-800 text-slate-400 border-slate-700',
+  audio: 'bg-teal-900/40 text-teal-300 border-teal-800',
+  both: 'bg-blue-900/40 text-blue-300 border-blue-800',
+};
+
+const TRANSITION_LABELS: Record<SceneTransition['kind'], string> = {
+  'fade-in': 'Fade in',
+  'fade-out': 'Fade out',
+  dissolve: 'Dissolve',
+  wipe: 'Wipe',
+};
+
+// Left-edge stripe per shot group, cycled when there are more groups than colours
+const GROUP_COLORS = [
+  'border-l-sky-400', 'border-l-amber-400', 'border-l-emerald-400', 'border-l-rose-400',
+  'border-l-violet-400', 'border-l-lime-400', 'border-l-orange-400', 'border-l-cyan-400',
+];
+
+const SubtitleList: React.FC<SubtitleListProps> = ({ subtitles, currentTime, onJumpTo, onDelete, onUpdate, onSetRange }) => {
   const listRef = useRef<HTMLDivElement>(null);
+  const [groupFilter, setGroupFilter] = useState<number | null>(null);
+  const [colorByGroup, setColorByGroup] = useState(true);
+
+  // Dialogue and music take the group of the scene they fall in, to check speakers against camera angles
+  const nodeGroups = useMemo(() => shotGroupsByNode(subtitles), [subtitles]);
+  const groupSummary = useMemo(() => {
+    const counts = new Map<number, { label: string; scenes: number }>();
+    subtitles.forEach(s => {
+      if (s.type !== 'scene' || !s.shotGroup) return;
+      const entry = counts.get(s.shotGroup.id) ?? { label: s.shotGroup.label, scenes: 0 };
+      entry.scenes++;
+      counts.set(s.shotGroup.id, entry);
+    });
+    return [...counts.entries()].sort((a, b) => a[0] - b[0]);
+  }, [subtitles]);
+
+  const updateCueInfo = (sub: SubtitleNode, patch: Partial<MusicCueInfo>) => {
+    onUpdate(sub.id, { cueInfo: { ...sub.cueInfo, ...patch } });
+  };
 
   // Auto-scroll to active subtitle
   useEffect(() => {
@@ -36,28 +83,56 @@ const SubtitleList: React.FC<SubtitleListProps> = ({ subtitles, currentTime, onJ
     );
   }
 
-  const sortedSubtitles = [...subtitles].sort((a, b) => a.timestamp - b.timestamp);
+  // A re-run of the clustering can remove the selected group
+  const activeFilter = groupSummary.some(([id]) => id === groupFilter) ? groupFilter : null;
+  const sortedSubtitles = [...subtitles]
+    .filter(s => activeFilter === null || nodeGroups.get(s.id)?.id === activeFilter)
+    .sort((a, b) => a.timestamp - b.timestamp);
 
   return (
     <div ref={listRef} className="flex flex-col space-y-3 p-4 h-full overflow-y-auto">
+      {groupSummary.length > 0 && (
+        <div className="flex items-center gap-3 text-xs text-slate-400">
+          <select
+            value={activeFilter ?? ''}
+            onChange={(e) => setGroupFilter(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1"
+            title="Show one camera setup with the dialogue and music inside its scenes"
+          >
+            <option value="">All setups</option>
+            {groupSummary.map(([id, { label, scenes }]) => (
+              <option key={id} value={id}>Setup {label} ({scenes} {scenes === 1 ? 'scene' : 'scenes'})</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={colorByGroup} onChange={(e) => setColorByGroup(e.target.checked)} />
+            Color by setup
+          </label>
+        </div>
+      )}
       {sortedSubtitles.map((sub) => {
+        const group = nodeGroups.get(sub.id);
+        const groupClass = colorByGroup && group ? `border-l-4 ${GROUP_COLORS[group.id % GROUP_COLORS.length]}` : '';
         const isActive = currentTime >= sub.timestamp && (sub.endTime ? currentTime <= sub.endTime : currentTime < sub.timestamp + 2);
         const isMusic = sub.type === 'music';
         const isScene = sub.type === 'scene';
+        const isTechnical = sub.type === 'technical';
 
         return (
           <div
             key={sub.id}
             id={isActive ? 'active-subtitle' : undefined}
             onClick={() => onJumpTo(sub.timestamp)}
-            className={`relative flex flex-col rounded-lg border transition-all duration-200 cursor-pointer group overflow-hidden ${
+            className={`relative flex flex-col rounded-lg border ${groupClass} transition-all duration-200 cursor-pointer group overflow-hidden ${
               isActive 
                 ? 'bg-blue-950/40 border-blue-500/50 shadow-lg shadow-blue-900/20' 
                 : isMusic 
                   ? 'bg-purple-950/20 border-purple-900/50 hover:bg-purple-900/30'
                   : isScene
                     ? 'bg-slate-800/40 border-slate-700 hover:bg-slate-700/40'
-                    : 'bg-slate-900/50 border-slate-800 hover:bg-slate-800/50'
+                    : isTechnical
+                      ? 'bg-zinc-950/60 border-dashed border-zinc-700 hover:bg-zinc-900/60'
+                      : 'bg-slate-900/50 border-slate-800 hover:bg-slate-800/50'
             }`}
           >
             {/* Scene Thumbnail Background (Optional) or Layout */}
@@ -83,12 +158,29 @@ const SubtitleList: React.FC<SubtitleListProps> = ({ subtitles, currentTime, onJ
                       )}
                     </div>
                     <div className="flex items-center gap-2">
-                      <span className="text-[10px] uppercase tracking-wider font-bold text-slate-500">
+                      {isScene && sub.shotGroup && (
+                        <span className="text-[10px] font-bold text-slate-400" title="Camera setup (similar-looking scenes share a letter)">
+                          Setup {sub.shotGroup.label}
+                        </span>
+                      )}
+                      <span
+                        className="text-[10px] uppercase tracking-wider font-bold text-slate-500"
+                        title={isTechnical ? 'Non-programme picture: skipped by AI analysis and subtitle exports' : undefined}
+                      >
                         {sub.type}
                       </span>
                       
                       {/* Action Buttons */}
                       <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {isScene && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); onSetRange(sub); }}
+                            className="p-1 text-slate-600 hover:text-amber-400 transition-colors"
+                            title="Set in/out range to this scene"
+                          >
+                            <RangeIcon className="w-3.5 h-3.5" />
+                          </button>
+                        )}
                         <button 
                           onClick={(e) => { e.stopPropagation(); onDelete(sub.id); }}
                           className="p-1 text-slate-600 hover:text-red-400 transition-colors"
@@ -127,24 +219,115 @@ const SubtitleList: React.FC<SubtitleListProps> = ({ subtitles, currentTime, onJ
                     </div>
                   )}
 
-                  {/* Deep Music Analysis */}
-                  {isMusic && sub.musicAnalysis && (
+                  {/* Scene cut: gradual transition span, which detector fired and how sure it was */}
+                  {isScene && (sub.boundary || sub.transition || sub.startFrame) && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {sub.transition && (
+                        <span className="text-[10px] px-2 py-0.5 rounded-full bg-indigo-900/40 text-indigo-300 border border-indigo-800">
+                          {TRANSITION_LABELS[sub.transition.kind]} {sub.transition.start.toFixed(1)}–{sub.transition.end.toFixed(1)}s
+                        </span>
+                      )}
+                      {sub.boundary && (
+                        <span
+                          className={`text-[10px] px-2 py-0.5 rounded-full border ${TRIGGER_CLASSES[sub.boundary.trigger]}`}
+                          title={`Frame diff ${sub.boundary.visualScore}, audio ${sub.boundary.audioScore}`}
+                        >
+                          {TRIGGER_LABELS[sub.boundary.trigger]}
+                          {sub.boundary.audioCue && sub.boundary.trigger !== 'visual' && ` (${sub.boundary.audioCue})`}
+                          {' · '}{Math.round(sub.boundary.confidence * 100)}%
+                        </span>
+                      )}
+                      {sub.startFrame && (
+                        <span
+                          className="text-[10px] px-2 py-0.5 rounded-full bg-slate-800 text-slate-400 border border-slate-700 font-mono"
+                          title="First frame of the shot, refined from the coarse scan"
+                        >
+                          Frame {sub.startFrame.frame} @ {Number(sub.startFrame.fps.toFixed(3))} fps
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Deep Music Analysis; the measured tempo shows even when the AI gave none */}
+                  {isMusic && (sub.musicAnalysis || sub.tempoEstimate) && (
                     <div className="grid grid-cols-2 gap-1 mt-2 pt-2 border-t border-slate-800/50">
+                      {sub.musicAnalysis && (
+                        <div className="text-[10px] text-slate-400">
+                          <span className="block text-slate-600">Mode</span> {sub.musicAnalysis.harmonicMode}
+                        </div>
+                      )}
                       <div className="text-[10px] text-slate-400">
-                        <span className="block text-slate-600">Mode</span> {sub.musicAnalysis.harmonicMode}
-                      </div>
-                      <div className="text-[10px] text-slate-400">
-                        <span className="block text-slate-600">Tempo</span> {sub.musicAnalysis.tempo}
-                      </div>
-                      <div className="text-[10px] text-slate-400">
-                        <span className="block text-slate-600">Dynamics</span> {sub.musicAnalysis.dynamics}
-                      </div>
-                      <div className="text-[10px] text-slate-400">
-                        <span className="block text-slate-600">Sentiment</span> 
-                        <span className={sub.musicAnalysis.sentimentScore > 0 ? 'text-green-400' : 'text-red-400'}>
-                          {sub.musicAnalysis.sentimentScore}
-                        </span>
+                        <span className="block text-slate-600">Tempo</span> {sub.musicAnalysis?.tempo ?? sub.tempoEstimate?.derivedTempo}
+                        {sub.tempoEstimate?.aiTempo && (
+                          <span className="ml-1 text-slate-600" title="Derived from the measured BPM; the AI label is shown in brackets">
+                            (AI {sub.tempoEstimate.aiTempo})
+                          </span>
+                        )}
                       </div>
+                      {sub.musicAnalysis && (
+                        <>
+                          <div className="text-[10px] text-slate-400">
+                            <span className="block text-slate-600">Dynamics</span> {sub.musicAnalysis.dynamics}
+                            {sub.loudness?.dynamicsMismatch && (
+                              <span className="ml-1 text-amber-400" title="AI label disagrees with the measured loudness">
+                                (measured {sub.loudness.derivedDynamics})
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-[10px] text-slate-400">
+                            <span className="block text-slate-600">Sentiment</span> 
+                            <span className={sub.musicAnalysis.sentimentScore > 0 ? 'text-green-400' : 'text-red-400'}>
+                              {sub.musicAnalysis.sentimentScore}
+                            </span>
+                          </div>
+                        </>
+                      )}
+                      {sub.tempoEstimate && (
+                        <div className="text-[10px] text-slate-400" title={`${sub.tempoEstimate.onsetCount} onsets detected`}>
+                          <span className="block text-slate-600">BPM</span>
+                          <span className="font-mono">{sub.tempoEstimate.bpm.toFixed(0)}</span>
+                          <span className={`ml-1 ${sub.tempoEstimate.confidence >= MIN_TEMPO_CONFIDENCE ? 'text-slate-500' : 'text-amber-500'}`}>
+                            ({Math.round(sub.tempoEstimate.confidence * 100)}%)
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Measured Loudness */}
+                  {sub.loudness && (
+                    <div className="flex flex-wrap gap-x-2 mt-2 font-mono text-[10px] text-slate-500" title="Integrated / max short-term loudness, true peak, loudness range">
+                      <span>{formatLevel(sub.loudness.integratedLufs, 'LUFS')}</span>
+                      <span>ST {formatLevel(sub.loudness.maxShortTermLufs, 'LUFS')}</span>
+                      <span>TP {formatLevel(sub.loudness.truePeakDbtp, 'dBTP')}</span>
+                      <span>LRA {formatLevel(sub.loudness.loudnessRangeLu, 'LU')}</span>
+                    </div>
+                  )}
+
+                  {/* Cue Sheet Details (licensing) */}
+                  {isMusic && (
+                    <div
+                      className="grid grid-cols-3 gap-1 mt-2 pt-2 border-t border-slate-800/50"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      {(['title', 'composer', 'publisher'] as const).map(field => (
+                        <input
+                          key={field}
+                          type="text"
+                          placeholder={field.charAt(0).toUpperCase() + field.slice(1)}
+                          value={sub.cueInfo?.[field] || ''}
+                          onChange={(e) => updateCueInfo(sub, { [field]: e.target.value })}
+                          className="min-w-0 bg-slate-900/60 border border-slate-800 rounded px-1.5 py-0.5 text-[10px] text-slate-300 placeholder:text-slate-600 focus:border-purple-700 outline-none"
+                        />
+                      ))}
+                      <label className="col-span-3 flex items-center gap-1.5 text-[10px] text-slate-500">
+                        <input
+                          type="checkbox"
+                          checked={sub.cueInfo?.vocal === true}
+                          onChange={(e) => updateCueInfo(sub, { vocal: e.target.checked })}
+                        />
+                        Vocal
+                      </label>
                     </div>
                   )}
                </div>
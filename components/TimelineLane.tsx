@@ -0,0 +1,52 @@
+import React from 'react';
+
+export interface LaneSpan {
+  start: number;
+  end: number;
+  className: string;
+  title?: string;
+}
+
+interface TimelineLaneProps {
+  label: string;
+  spans: LaneSpan[];
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+/**
+ * A single horizontal track of time spans with a playhead; click to seek.
+ */
+const TimelineLane: React.FC<TimelineLaneProps> = ({ label, spans, duration, currentTime, onSeek }) => {
+  if (duration <= 0) return null;
+
+  const toPercent = (time: number) => `${Math.min(100, Math.max(0, (time / duration) * 100))}%`;
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-24 flex-shrink-0 text-[10px] uppercase tracking-wider font-bold text-slate-500 truncate">{label}</span>
+      <div
+        className="relative flex-1 h-4 bg-slate-900 border border-slate-800 rounded cursor-pointer overflow-hidden"
+        onClick={handleClick}
+      >
+        {spans.map((span, i) => (
+          <div
+            key={i}
+            className={`absolute top-0 bottom-0 ${span.className}`}
+            style={{ left: toPercent(span.start), width: `calc(${toPercent(span.end)} - ${toPercent(span.start)})` }}
+            title={span.title}
+          />
+        ))}
+        <div className="absolute top-0 bottom-0 w-px bg-white/80 pointer-events-none" style={{ left: toPercent(currentTime) }} />
+      </div>
+    </div>
+  );
+};
+
+export default TimelineLane;
@@ -1,8 +1,11 @@
-import React, { useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
-import { VideoState } from '../types';
+import React, { useRef, useEffect, useMemo, useState, forwardRef, useImperativeHandle } from 'react';
+import { VideoState, SubtitleNode, CaptionMode } from '../types';
+import { exportToVtt, DEFAULT_VTT_OPTIONS } from '../utils/subtitleFormats';
 
 interface VideoPlayerProps {
   src: string | null;
+  subtitles: SubtitleNode[];
+  captionMode: CaptionMode;
   onTimeUpdate: (currentTime: number) => void;
   onDurationChange: (duration: number) => void;
   onEnded: () => void;
@@ -16,9 +19,40 @@ export interface VideoPlayerHandle {
   videoElement: HTMLVideoElement | null;
 }
 
-const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(({ src, onTimeUpdate, onDurationChange, onEnded }, ref) => {
+const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(({ src, subtitles, captionMode, onTimeUpdate, onDurationChange, onEnded }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [trackUrl, setTrackUrl] = useState<string | null>(null);
+
+  // Scene labels are noise over the picture; captions carry dialogue and music only
+  const vttContent = useMemo(() => {
+    if (captionMode === 'off') return null;
+    return exportToVtt(subtitles, {
+      ...DEFAULT_VTT_OPTIONS,
+      textField: captionMode,
+      types: ['dialogue', 'music'],
+    });
+  }, [subtitles, captionMode]);
+
+  // Rebuild the caption track whenever the timeline changes
+  useEffect(() => {
+    if (!vttContent) {
+      setTrackUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([vttContent], { type: 'text/vtt' }));
+    setTrackUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [vttContent]);
+
+  // `default` is only honored on initial load, so force the newest track visible
+  useEffect(() => {
+    const tracks = videoRef.current?.textTracks;
+    if (!tracks) return;
+    for (let i = 0; i < tracks.length; i++) {
+      tracks[i].mode = trackUrl && i === tracks.length - 1 ? 'showing' : 'disabled';
+    }
+  }, [trackUrl]);
 
   useImperativeHandle(ref, () => ({
     play: () => videoRef.current?.play(),
@@ -86,7 +120,18 @@ const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(({ src, onTi
         controls={false}
         playsInline
         crossOrigin="anonymous"
-      />
+      >
+        {trackUrl && (
+          // Remount on every rebuild; browsers ignore src changes on a loaded track
+          <track
+            key={trackUrl}
+            kind="captions"
+            src={trackUrl}
+            label={captionMode === 'translation' ? 'Translation' : 'Original'}
+            default
+          />
+        )}
+      </video>
     </div>
   );
 });
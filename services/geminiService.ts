@@ -1,49 +1,68 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, FinishReason, Type } from "@google/genai";
+import { AnalysisSegment, AnalysisProvider } from "../types";
+import { runRequest } from "./requestLayer";
+import { createAnalysisError } from "../utils/analysisErrors";
 
-// Initialize the client with the environment variable
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use, so the app loads (and the mock provider works) without a key
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) throw new Error("GEMINI_API_KEY is not set. Add it to .env.local or switch to the offline provider.");
+  client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+const SHORT_REQUEST_TIMEOUT_MS = 30_000; // Images or one line of text; audio and batches use the request layer default
+
+const BLOCKED_FINISH_REASONS = new Set<FinishReason | undefined>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+]);
 
 /**
- * Analyzes a specific video frame and generates a subtitle/description.
+ * Analyzes a video frame (or several frames of one scene, in order) and generates a subtitle/description.
  */
 export const generateSceneDescription = async (
-  base64Image: string
+  base64Images: string | string[],
+  signal?: AbortSignal
 ): Promise<string> => {
-  const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
+  const images = Array.isArray(base64Images) ? base64Images : [base64Images];
+  const prompt = images.length > 1
+    ? `These ${images.length} frames are sampled in order across one movie scene. Write a concise, single-sentence subtitle that describes what happens over the scene. Keep it under 15 words. Do not add quotes.`
+    : "Analyze this movie scene. Write a concise, single-sentence subtitle that describes exactly what is happening visually or what might be said. Keep it under 15 words. Do not add quotes.";
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [
-        {
-          parts: [
-            {
-              inlineData: {
-                mimeType: 'image/jpeg',
-                data: cleanBase64
+    return await runRequest('Scene description', async (signal) => {
+      const response = await getClient().models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: [
+          {
+            parts: [
+              ...images.map(image => ({
+                inlineData: {
+                  mimeType: 'image/jpeg',
+                  data: image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "")
+                }
+              })),
+              {
+                text: prompt
               }
-            },
-            {
-              text: "Analyze this movie scene. Write a concise, single-sentence subtitle that describes exactly what is happening visually or what might be said. Keep it under 15 words. Do not add quotes."
-            }
-          ]
+            ]
+          }
+        ],
+        config: {
+          temperature: 0.4,
+          maxOutputTokens: 50,
+          abortSignal: signal,
         }
-      ],
-      config: {
-        temperature: 0.4,
-        maxOutputTokens: 50,
-      }
-    });
-
-    if (response.text) {
-      return response.text.trim();
-    } else {
-      throw new Error("No text generated from Gemini.");
-    }
-
+      });
+      return responseText(response);
+    }, { timeoutMs: SHORT_REQUEST_TIMEOUT_MS, signal });
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    if (!signal?.aborted) console.error("Gemini API Error:", error);
     throw error;
   }
 };
@@ -58,28 +77,26 @@ export const translateText = async (
   if (!text || !text.trim()) return "";
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [
-        {
-          parts: [{ text: text }]
-        }
-      ],
-      config: {
-        systemInstruction: `You are a professional translator. Translate the user text into ${targetLanguage}. 
+    return await runRequest('Translation', async (signal) => {
+      const response = await getClient().models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: [
+          {
+            parts: [{ text: text }]
+          }
+        ],
+        config: {
+          systemInstruction: `You are a professional translator. Translate the user text into ${targetLanguage}. 
         - Maintain the original tone, emotion, and brevity. 
         - Output ONLY the translated text.
         - No preamble or explanations.`,
-        temperature: 0.3,
-        maxOutputTokens: 200,
-      }
-    });
-
-    if (response.text) {
-      return response.text.trim();
-    }
-    
-    throw new Error("Translation returned empty text.");
+          temperature: 0.3,
+          maxOutputTokens: 200,
+          abortSignal: signal,
+        }
+      });
+      return responseText(response);
+    }, { timeoutMs: SHORT_REQUEST_TIMEOUT_MS });
   } catch (error) {
     console.error("Gemini Translation Error:", error);
     throw error;
@@ -97,31 +114,30 @@ export const translateBatch = async (
   if (texts.length === 0) return [];
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [
-        {
-          parts: [{ text: JSON.stringify(texts) }]
-        }
-      ],
-      config: {
-        systemInstruction: `You are a professional subtitle translator. 
+    return await runRequest('Batch translation', async (signal) => {
+      const response = await getClient().models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: [
+          {
+            parts: [{ text: JSON.stringify(texts) }]
+          }
+        ],
+        config: {
+          systemInstruction: `You are a professional subtitle translator. 
         Translate the array of strings provided by the user into ${targetLanguage}.
         - Maintain the context of a movie/video script.
         - Return the translations in the EXACT same order as the input.
         - Return strictly a JSON array of strings.`,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING }
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+          },
+          abortSignal: signal,
         }
-      }
+      });
+      return JSON.parse(responseText(response));
     });
-
-    if (response.text) {
-      return JSON.parse(response.text);
-    }
-    throw new Error("No JSON generated for translation batch.");
   } catch (error) {
     console.error("Batch Translation Error:", error);
     throw error;
@@ -132,21 +148,22 @@ export const translateBatch = async (
  * Analyzes audio to extract Scenes, Dialogues, and detailed Music Metrics.
  * Returns a JSON array of segments.
  */
-export const analyzeAudioDeeply = async (base64Audio: string) => {
+export const analyzeAudioDeeply = async (base64Audio: string, mimeType: string = 'audio/wav'): Promise<{ segments: AnalysisSegment[] }> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [
-        {
-          parts: [
-            {
-              inlineData: {
-                mimeType: 'audio/wav',
-                data: base64Audio
-              }
-            },
-            {
-              text: `
+    return await runRequest('Audio analysis', async (signal) => {
+      const response = await getClient().models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: [
+          {
+            parts: [
+              {
+                inlineData: {
+                  mimeType,
+                  data: base64Audio
+                }
+              },
+              {
+                text: `
                 Analyze this audio track from a video. Break it down into distinct chronological segments based on what is happening (Dialogue vs Music vs Silence).
                 
                 For DIALOGUE segments:
@@ -164,54 +181,77 @@ export const analyzeAudioDeeply = async (base64Audio: string) => {
                 
                 Return a JSON object with a "segments" array.
               `
-            }
-          ]
-        }
-      ],
-      config: {
-        temperature: 0.2,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            segments: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  startTime: { type: Type.NUMBER, description: "Start time in seconds" },
-                  endTime: { type: Type.NUMBER, description: "End time in seconds" },
-                  type: { type: Type.STRING, enum: ["dialogue", "music", "silence"] },
-                  text: { type: Type.STRING, description: "Transcript or description of sound" },
-                  speaker: { type: Type.STRING, nullable: true },
-                  emotion: { type: Type.STRING, nullable: true },
-                  musicAnalysis: {
-                    type: Type.OBJECT,
-                    nullable: true,
-                    properties: {
-                      source: { type: Type.STRING, enum: ["Diegetic", "Non-Diegetic", "Silence/Ambient"] },
-                      tempo: { type: Type.STRING, enum: ["Slow", "Medium", "Fast"] },
-                      dynamics: { type: Type.STRING, enum: ["Low", "Medium", "High"] },
-                      progression: { type: Type.STRING, enum: ["Crescendo", "Diminuendo", "Sustained"] },
-                      harmonicMode: { type: Type.STRING, enum: ["Major", "Minor"] },
-                      sentimentScore: { type: Type.NUMBER, description: "Between -1.0 and 1.0" }
+              }
+            ]
+          }
+        ],
+        config: {
+          temperature: 0.2,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              segments: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    startTime: { type: Type.NUMBER, description: "Start time in seconds" },
+                    endTime: { type: Type.NUMBER, description: "End time in seconds" },
+                    type: { type: Type.STRING, enum: ["dialogue", "music", "silence"] },
+                    text: { type: Type.STRING, description: "Transcript or description of sound" },
+                    speaker: { type: Type.STRING, nullable: true },
+                    emotion: { type: Type.STRING, nullable: true },
+                    musicAnalysis: {
+                      type: Type.OBJECT,
+                      nullable: true,
+                      properties: {
+                        source: { type: Type.STRING, enum: ["Diegetic", "Non-Diegetic", "Silence/Ambient"] },
+                        tempo: { type: Type.STRING, enum: ["Slow", "Medium", "Fast"] },
+                        dynamics: { type: Type.STRING, enum: ["Low", "Medium", "High"] },
+                        progression: { type: Type.STRING, enum: ["Crescendo", "Diminuendo", "Sustained"] },
+                        harmonicMode: { type: Type.STRING, enum: ["Major", "Minor"] },
+                        sentimentScore: { type: Type.NUMBER, description: "Between -1.0 and 1.0" }
+                      }
                     }
-                  }
-                },
-                required: ["startTime", "endTime", "type", "text"]
+                  },
+                  required: ["startTime", "endTime", "type", "text"]
+                }
               }
             }
-          }
+          },
+          abortSignal: signal,
         }
-      }
+      });
+      return JSON.parse(responseText(response));
     });
-
-    if (response.text) {
-      return JSON.parse(response.text);
-    }
-    throw new Error("No JSON generated.");
   } catch (error) {
     console.error("Gemini Audio Analysis Error:", error);
     throw error;
   }
 };
+
+// Text of a finished response; blocked or empty output becomes a classified error
+function responseText(response: GenerateContentResponse): string {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw createAnalysisError('safety', response.promptFeedback?.blockReasonMessage || `Prompt blocked (${blockReason})`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKED_FINISH_REASONS.has(finishReason)) {
+    throw createAnalysisError('safety', `Response blocked (${finishReason})`);
+  }
+  const text = response.text?.trim();
+  if (!text) {
+    throw createAnalysisError('invalid-response', finishReason ? `Empty response (${finishReason})` : 'Empty response');
+  }
+  return text;
+}
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash',
+  describeScene: generateSceneDescription,
+  analyzeAudio: analyzeAudioDeeply,
+  translateBatch,
+};
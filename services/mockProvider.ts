@@ -0,0 +1,116 @@
+import { AnalysisProvider, AnalysisSegment, MusicAnalysis } from "../types";
+
+/**
+ * Offline analysis provider: deterministic fixture output, no key or network needed.
+ * The same input always gives the same result, so demos and manual tests are repeatable.
+ */
+
+// CONFIGURATION
+const MOCK_LATENCY_MS = 400; // Simulated request time, so progress and concurrency stay visible
+const FALLBACK_AUDIO_SECONDS = 30; // When the payload header cannot be read
+const PATTERN_SECONDS = 30; // The fixture timeline repeats with this period
+
+const SCENE_FIXTURES = [
+  "A figure crosses a dimly lit room toward the window.",
+  "Two people talk quietly across a kitchen table.",
+  "A car pulls away from the curb at dusk.",
+  "Close-up of hands turning the pages of a notebook.",
+  "Wide shot of a city street in the rain.",
+  "Someone watches the door, waiting.",
+  "A crowded hallway empties as a bell rings.",
+  "Sunlight spills over a quiet field.",
+];
+
+const MUSIC_FIXTURE: MusicAnalysis = {
+  source: 'Non-Diegetic',
+  tempo: 'Medium',
+  dynamics: 'Low',
+  progression: 'Crescendo',
+  harmonicMode: 'Minor',
+  sentimentScore: -0.3,
+};
+
+// One period of the fixture timeline, in seconds from the start of the period
+const SEGMENT_FIXTURES: AnalysisSegment[] = [
+  { startTime: 0.5, endTime: 4, type: 'dialogue', text: "This is a mock line of dialogue.", speaker: 'Narrator', emotion: 'Calm' },
+  { startTime: 4, endTime: 6, type: 'silence', text: '' },
+  { startTime: 6, endTime: 16, type: 'music', text: 'Mock score cue', musicAnalysis: MUSIC_FIXTURE },
+  { startTime: 17, endTime: 21.5, type: 'dialogue', text: "Did you hear that?", speaker: 'Woman', emotion: 'Curious' },
+  { startTime: 22, endTime: 26, type: 'dialogue', text: "It was nothing. Go back to sleep.", speaker: 'Man', emotion: 'Neutral' },
+];
+
+const LANGUAGE_TAGS: Record<'Spanish' | 'English', string> = { Spanish: 'ES', English: 'EN' };
+
+export const mockProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+
+  describeScene: async (base64Images, signal) => {
+    await delay(signal);
+    const images = Array.isArray(base64Images) ? base64Images : [base64Images];
+    return SCENE_FIXTURES[hashString(images[0] ?? '') % SCENE_FIXTURES.length];
+  },
+
+  // Tiles the fixture timeline over the length of the audio sent, clipping the last period
+  analyzeAudio: async (base64Audio, mimeType) => {
+    await delay();
+    const duration = audioDuration(base64Audio, mimeType) ?? FALLBACK_AUDIO_SECONDS;
+    const segments: AnalysisSegment[] = [];
+    for (let offset = 0; offset < duration; offset += PATTERN_SECONDS) {
+      SEGMENT_FIXTURES.forEach(seg => {
+        const startTime = offset + seg.startTime;
+        if (startTime >= duration) return;
+        segments.push({ ...seg, startTime, endTime: Math.min(duration, offset + seg.endTime) });
+      });
+    }
+    return { segments };
+  },
+
+  translateBatch: async (texts, targetLanguage) => {
+    await delay();
+    return texts.map(text => `[${LANGUAGE_TAGS[targetLanguage]}] ${text}`);
+  },
+};
+
+function delay(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, MOCK_LATENCY_MS);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Request cancelled', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+// FNV-1a over the string; data URLs share a long prefix, so every character counts
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Reads the duration from the WAV or FLAC header written by utils/audioEncoding.ts
+function audioDuration(base64Audio: string, mimeType: string): number | null {
+  try {
+    const header = atob(base64Audio.slice(0, 60)); // 60 base64 chars = 45 bytes, enough for both headers
+    const byte = (i: number) => header.charCodeAt(i);
+    const uint32 = (i: number) => (byte(i) | (byte(i + 1) << 8) | (byte(i + 2) << 16) | (byte(i + 3) << 24)) >>> 0;
+
+    if (mimeType.includes('wav') && header.startsWith('RIFF')) {
+      const byteRate = uint32(28);
+      return byteRate > 0 ? uint32(40) / byteRate : null;
+    }
+    if (mimeType.includes('flac') && header.startsWith('fLaC')) {
+      // STREAMINFO starts at byte 8: 20-bit sample rate, then 36-bit total samples
+      const sampleRate = (byte(18) << 12) | (byte(19) << 4) | (byte(20) >> 4);
+      const totalSamples = (byte(21) & 0x0f) * 2 ** 32 + (((byte(22) << 24) | (byte(23) << 16) | (byte(24) << 8) | byte(25)) >>> 0);
+      return sampleRate > 0 ? totalSamples / sampleRate : null;
+    }
+  } catch (error) {
+    // Not base64; the caller falls back to a fixed length
+  }
+  return null;
+}
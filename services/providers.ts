@@ -0,0 +1,15 @@
+import { AnalysisProvider, AnalysisProviderId } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { DEFAULT_PROVIDER_ID } from "../utils/providerIds";
+
+/**
+ * Registry of analysis backends. A new backend implements AnalysisProvider and is added here, with its id in utils/providerIds.ts.
+ */
+export const ANALYSIS_PROVIDERS: Record<AnalysisProviderId, AnalysisProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export const getAnalysisProvider = (id: AnalysisProviderId): AnalysisProvider =>
+  ANALYSIS_PROVIDERS[id] ?? ANALYSIS_PROVIDERS[DEFAULT_PROVIDER_ID];
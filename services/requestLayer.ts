@@ -0,0 +1,187 @@
+import { ApiError } from "@google/genai";
+import { AnalysisError, AnalysisErrorKind } from "../types";
+import { createAnalysisError, isAnalysisError } from "../utils/analysisErrors";
+
+/**
+ * Shared path for every remote AI request: a concurrency/rate queue, a per-attempt timeout,
+ * exponential backoff on transient failures and classified errors for the UI.
+ */
+
+// CONFIGURATION
+const MAX_CONCURRENT_REQUESTS = 4; // Across all jobs (chunks, scene descriptions, translation)
+const MIN_REQUEST_INTERVAL_MS = 250; // Between request starts, to stay under per-minute quotas
+const DEFAULT_TIMEOUT_MS = 90_000; // Audio chunks take a while; scene descriptions pass a shorter one
+const DEFAULT_RETRIES = 3;
+const BACKOFF_BASE_MS = 1000;
+const QUOTA_BACKOFF_BASE_MS = 5000; // Quota windows reset slowly, so back off harder
+const BACKOFF_MAX_MS = 30_000;
+
+export const ERROR_LABELS: Record<AnalysisErrorKind, string> = {
+  quota: 'Rate limit or quota exceeded',
+  safety: 'Blocked by the safety filter',
+  'invalid-response': 'Invalid response from the model',
+  network: 'Network or service error',
+  timeout: 'Request timed out',
+  oversize: 'Payload too large',
+  unknown: 'Request failed',
+};
+
+export interface RequestOptions {
+  timeoutMs?: number;
+  retries?: number;
+  signal?: AbortSignal; // Cancels the request, a queued start and any backoff wait
+}
+
+/**
+ * Maps SDK, fetch and parse failures onto an error kind.
+ */
+export const classifyError = (error: unknown): AnalysisError => {
+  if (isAnalysisError(error)) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = error instanceof ApiError ? error.status : undefined;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return createAnalysisError('quota', message, status);
+  }
+  if (status === 413 || /payload size|too large|exceeds the maximum|token count|maximum number of tokens/i.test(message)) {
+    return createAnalysisError('oversize', message, status);
+  }
+  if (status !== undefined && (status === 408 || status >= 500)) {
+    return createAnalysisError('network', message, status);
+  }
+  if (error instanceof SyntaxError) {
+    return createAnalysisError('invalid-response', `Could not parse the model output: ${message}`);
+  }
+  // fetch rejects with a TypeError on connection failures, but so does a bug in the parsing code;
+  // only the browsers' and Node's connection-failure messages count as network errors
+  if (/network|failed to fetch|fetch failed|load failed|ECONNRESET|ETIMEDOUT/i.test(message)) {
+    return createAnalysisError('network', message, status);
+  }
+  return createAnalysisError('unknown', message, status);
+};
+
+/**
+ * "Rate limit or quota exceeded: <API message>", for progress tooltips and error banners.
+ */
+export const describeError = (error: unknown): string => {
+  const classified = classifyError(error);
+  return classified.message ? `${ERROR_LABELS[classified.kind]}: ${classified.message}` : ERROR_LABELS[classified.kind];
+};
+
+/**
+ * Runs tasks with at most `maxConcurrent` in flight and starts spaced by `minIntervalMs`,
+ * in the order they were queued.
+ */
+export const createRequestQueue = (maxConcurrent: number, minIntervalMs: number) => {
+  const waiting: (() => void)[] = [];
+  let active = 0;
+  let lastStart = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const pump = () => {
+    if (timer || active >= maxConcurrent || waiting.length === 0) return;
+    const wait = lastStart + minIntervalMs - Date.now();
+    if (wait > 0) {
+      timer = setTimeout(() => { timer = null; pump(); }, wait);
+      return;
+    }
+    active++;
+    lastStart = Date.now();
+    waiting.shift()!();
+    pump();
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+    waiting.push(() => {
+      task().then(resolve, reject).finally(() => {
+        active--;
+        pump();
+      });
+    });
+    pump();
+  });
+};
+
+const enqueue = createRequestQueue(MAX_CONCURRENT_REQUESTS, MIN_REQUEST_INTERVAL_MS);
+
+/**
+ * Sends `request` through the shared queue. Each attempt gets its own abort signal, fired on timeout
+ * or when `options.signal` aborts; transient failures are retried with exponential backoff and jitter.
+ * Rejects with an AnalysisError, or with an AbortError once `options.signal` aborts.
+ */
+export const runRequest = async <T>(
+  label: string,
+  request: (signal: AbortSignal) => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const { signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // A request cancelled while queued gives its slot straight back
+      return await enqueue(() => signal?.aborted ? Promise.reject(abortError()) : withTimeout(request, timeoutMs, signal));
+    } catch (error) {
+      if (signal?.aborted) throw abortError();
+      const classified = classifyError(error);
+      if (!classified.retryable || attempt >= retries) throw classified;
+
+      const delay = backoffDelay(attempt, classified.kind);
+      console.warn(`${label}: ${ERROR_LABELS[classified.kind]}, retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+function withTimeout<T>(request: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    // Both reject even if the request ignores the signal
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(createAnalysisError('timeout', `No response after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+    const onAbort = () => {
+      controller.abort();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+    request(controller.signal).then(resolve, reject).finally(() => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+// Backoff wait that ends early, with an AbortError, when the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Same shape as the audio worker's cancellation, so isAbortError covers both
+function abortError(): DOMException {
+  return new DOMException('Request cancelled', 'AbortError');
+}
+
+// Half the exponential cap plus a random half, so parallel jobs do not retry in lockstep
+function backoffDelay(attempt: number, kind: AnalysisErrorKind): number {
+  const base = kind === 'quota' ? QUOTA_BACKOFF_BASE_MS : BACKOFF_BASE_MS;
+  const cap = Math.min(BACKOFF_MAX_MS, base * 2 ** attempt);
+  return cap / 2 + Math.random() * (cap / 2);
+}
@@ -7,7 +7,7 @@ export interface SubtitleNode {
   translation?: string; // New field for translated text
   thumbnail?: string; // New field for visual scene snapshot
   isAutoGenerated: boolean;
-  type: 'dialogue' | 'music' | 'scene';
+  type: 'dialogue' | 'music' | 'scene' | 'technical';
   
   // Dialogue specific
   speaker?: string;
@@ -15,17 +15,101 @@ export interface SubtitleNode {
   
   // Music specific
   musicAnalysis?: MusicAnalysis;
+  cueInfo?: MusicCueInfo; // Licensing details entered by the music supervisor
+
+  // Measured locally from the audio (dialogue and music), see utils/loudness.ts
+  loudness?: SegmentLoudness;
+  tempoEstimate?: TempoEstimate; // Music only, see utils/tempo.ts
+
+  // Scene specific: what caused the cut at timestamp (absent on the first scene)
+  boundary?: SceneBoundary;
+  transition?: SceneTransition; // Gradual change into this scene; absent for hard cuts
+  startFrame?: FramePosition; // Frame-accurate cut, set when the coarse cut was refined
+  shotGroup?: ShotGroup; // Recurring camera setup, see utils/shotClustering.ts
+
+  // Technical specific: non-programme picture, kept out of AI analysis and subtitle exports
+  technicalKind?: TechnicalKind;
+}
+
+export type TechnicalKind = 'black' | 'slate' | 'credits'; // slate covers colour bars too
+
+export interface MusicCueInfo {
+  title?: string;
+  composer?: string;
+  publisher?: string;
+  vocal?: boolean; // Cue sheet usage is Vocal vs Instrumental; AI cannot tell reliably
 }
 
 export interface MusicAnalysis {
   source: 'Diegetic' | 'Non-Diegetic' | 'Silence/Ambient';
-  tempo: 'Slow' | 'Medium' | 'Fast';
+  tempo?: 'Slow' | 'Medium' | 'Fast'; // Absent when the AI gave none; utils/tempo.ts derives it from the BPM
   dynamics: 'Low' | 'Medium' | 'High';
   progression: 'Crescendo' | 'Diminuendo' | 'Sustained';
   harmonicMode: 'Major' | 'Minor';
   sentimentScore: number; // -1.0 to 1.0
 }
 
+// BS.1770 measurements; null where the audio is silent (below the -70 LUFS gate)
+export interface LoudnessMeasurement {
+  integratedLufs: number | null;
+  maxShortTermLufs: number | null;
+  loudnessRangeLu: number | null;
+  truePeakDbtp: number | null;
+}
+
+export interface SegmentLoudness extends LoudnessMeasurement {
+  derivedDynamics?: MusicAnalysis['dynamics']; // Measured level relative to the programme
+  dynamicsMismatch?: boolean; // AI dynamics label disagrees with derivedDynamics
+}
+
+export interface ProgramLoudness extends LoudnessMeasurement {
+  maxMomentaryLufs: number | null;
+  duration: number;
+  measuredAt: string; // ISO date
+}
+
+// Per-channel loudness data per 100ms sub-block, computed in the audio worker (see utils/loudness.ts)
+export interface ChannelBlocks {
+  power: Float64Array; // K-weighted mean square
+  peak: Float32Array; // Linear true peak (4x oversampled)
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number; // 0-1, periodicity strength of the onset envelope
+  onsetCount: number;
+  derivedTempo: MusicAnalysis['tempo']; // Category implied by bpm
+  aiTempo?: MusicAnalysis['tempo']; // Original AI label, set when musicAnalysis.tempo was replaced
+}
+
+// Which detector(s) produced a scene cut, see utils/sceneDetection.ts
+export interface SceneBoundary {
+  trigger: 'visual' | 'audio' | 'both';
+  confidence: number; // 0-1
+  visualScore: number; // Frame diff (0-100)
+  audioScore: number; // Audio discontinuity (0-100), 0 when audio was not used
+  audioCue?: 'silence' | 'spectral'; // Strongest audio signal near the cut
+}
+
+// A gradual transition spanning [start, end]; the scene starts at `start`
+export interface SceneTransition {
+  kind: 'fade-in' | 'fade-out' | 'dissolve' | 'wipe';
+  start: number;
+  end: number;
+}
+
+// First frame of a shot; timestamp is frame / fps
+export interface FramePosition {
+  frame: number;
+  fps: number; // Detected (or assumed) frame rate the frame number counts in
+}
+
+// Scenes sharing an id look alike (same camera setup or location)
+export interface ShotGroup {
+  id: number; // 0-based, in order of first appearance
+  label: string; // "A", "B", ...
+}
+
 export interface VideoState {
   url: string | null;
   fileName: string | null;
@@ -35,6 +119,135 @@ export interface VideoState {
   isPlaying: boolean;
 }
 
+export interface AnalysisSettings {
+  sceneThreshold: number; // detectScenes sensitivity (0-100); the floor in adaptive mode
+  sceneThresholdMode: 'fixed' | 'adaptive'; // Adaptive: rolling mean + sensitivity * stddev of recent diffs
+  sceneAdaptiveSensitivity: number; // Standard deviations above the rolling mean
+  sceneSampleFps: number; // Frames compared per second
+  sceneLuminanceWeight: number; // 0-1, share of luminance in the frame diff (histogram gets the rest)
+  sceneMinLength: number; // Seconds; shorter scenes are treated as flicker
+  useAudioBoundaries: boolean; // Fuse audio discontinuities with the visual diff
+  targetLanguage: 'Spanish' | 'English' | null; // Last batch translation target
+  chunkDuration: number; // Seconds of audio per AI request
+  chunkOverlap: number; // Seconds shared between consecutive chunks
+  useVad: boolean; // Skip silent stretches and snap dialogue to local voice activity
+  audioEncoding: AudioEncoding; // Payload format sent to the audio model
+  describeConcurrency: number; // Scene description requests in flight at once
+  describeFrameCount: number; // 1 sends the thumbnail; more samples frames across each scene
+  provider: AnalysisProviderId; // Backend for every AI request
+}
+
+// FLAC is lossless and roughly half the size of WAV
+export type AudioEncoding = 'wav' | 'flac';
+
+export interface EncodedAudio {
+  base64: string;
+  mimeType: string;
+}
+
+export type AnalysisProviderId = 'gemini' | 'mock';
+
+// Backend behind every AI request, see services/providers.ts (ids in utils/providerIds.ts)
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  describeScene: (base64Images: string | string[], signal?: AbortSignal) => Promise<string>; // One frame, or several from one scene in order
+  analyzeAudio: (base64Audio: string, mimeType: string) => Promise<{ segments: AnalysisSegment[] }>;
+  translateBatch: (texts: string[], targetLanguage: 'Spanish' | 'English') => Promise<string[]>; // Same order as the input
+}
+
+// Why an AI request failed, see utils/analysisErrors.ts and services/requestLayer.ts
+export type AnalysisErrorKind = 'quota' | 'safety' | 'invalid-response' | 'network' | 'timeout' | 'oversize' | 'unknown';
+
+export interface AnalysisError extends Error {
+  kind: AnalysisErrorKind;
+  retryable: boolean; // Transient: the request layer already retried it with backoff
+  status?: number; // HTTP status, when the API returned one
+}
+
+// Raw segment as returned by AnalysisProvider.analyzeAudio (times relative to the audio sent)
+export interface AnalysisSegment {
+  startTime: number;
+  endTime: number;
+  type: 'dialogue' | 'music' | 'silence';
+  text: string;
+  speaker?: string | null;
+  emotion?: string | null;
+  musicAnalysis?: MusicAnalysis | null;
+}
+
+// A validated segment of a chunked run; nodeId stays the same across commits so edits to the node survive
+export interface ChunkSegment extends AnalysisSegment {
+  nodeId: string;
+}
+
+// Output of the local voice activity detector; regions are contiguous and cover the whole audio
+export interface VadRegion {
+  start: number;
+  end: number;
+  isSpeech: boolean;
+  isSilent: boolean; // Non-speech that stays below the VAD energy floor throughout (no music or effects either)
+}
+
+export type ChunkStatus = 'pending' | 'running' | 'done' | 'error' | 'skipped';
+
+export interface AudioChunk {
+  index: number;
+  start: number; // Absolute seconds
+  end: number;
+  // Segments whose midpoint falls in [ownStart, ownEnd) belong to this chunk; the rest are overlap duplicates
+  ownStart: number;
+  ownEnd: number;
+  status: ChunkStatus;
+  segments: ChunkSegment[]; // Already offset to absolute time
+  repairs?: SegmentRepair[]; // Fixes applied to this chunk's response, see utils/segmentValidation.ts
+  error?: string;
+}
+
+// One change made to an AI segment before it became a node
+export interface SegmentRepair {
+  time: number; // Absolute seconds where the segment starts (clamped into the chunk)
+  action: 'fixed' | 'mapped' | 'dropped';
+  message: string;
+}
+
+// One scene of a "Describe all scenes" run; skipped = already described
+export interface SceneDescriptionTask {
+  sceneId: string;
+  timestamp: number;
+  status: ChunkStatus;
+  error?: string;
+}
+
+export interface ProjectSource {
+  fileName: string | null;
+  duration: number;
+  fingerprint: string | null; // SHA-256 of size + head/tail bytes, see computeFileFingerprint
+}
+
+/**
+ * Versioned envelope written by the JSON download.
+ * Version 1 was a bare SubtitleNode[] and is migrated on import; the version history is kept
+ * next to PROJECT_FORMAT_VERSION in utils/projectFile.ts.
+ */
+export interface ProjectFile {
+  format: 'scenesync-project';
+  version: number;
+  savedAt: string; // ISO date
+  source: ProjectSource;
+  settings: AnalysisSettings;
+  nodes: SubtitleNode[];
+}
+
+// In/out points restricting scene detection, audio analysis and translation (absolute seconds)
+export interface AnalysisRange {
+  start: number;
+  end: number;
+}
+
+// Which text the player's caption track shows
+export type CaptionMode = 'off' | 'text' | 'translation';
+
 export enum GenerationStatus {
   IDLE = 'IDLE',
   PROCESSING_VIDEO = 'PROCESSING_VIDEO',
@@ -0,0 +1,26 @@
+import { AnalysisError, AnalysisErrorKind } from "../types";
+
+/**
+ * Classified AI request errors. Shared by the request layer, the providers and response validation,
+ * which raise them; services/requestLayer.ts maps everything else onto a kind.
+ */
+
+const RETRYABLE: Record<AnalysisErrorKind, boolean> = {
+  quota: true,
+  safety: false,
+  'invalid-response': true,
+  network: true,
+  timeout: true,
+  oversize: false,
+  unknown: false,
+};
+
+export const createAnalysisError = (
+  kind: AnalysisErrorKind,
+  message: string,
+  status?: number
+): AnalysisError =>
+  Object.assign(new Error(message), { name: 'AnalysisError', kind, retryable: RETRYABLE[kind], status });
+
+export const isAnalysisError = (error: unknown): error is AnalysisError =>
+  error instanceof Error && error.name === 'AnalysisError' && 'kind' in error;
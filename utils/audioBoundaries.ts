@@ -0,0 +1,166 @@
+import { hannWindow, magnitudeSpectrum } from "./spectral";
+
+/**
+ * Audio discontinuity signal for scene detection: silence gaps and jumps in the spectral envelope.
+ * Scores are 0-100 per frame and are queried over the interval between two visual samples.
+ */
+
+// CONFIGURATION
+const FRAME_SIZE = 512; // 32ms at 16kHz
+const BANDS = 24; // Log-spaced bands summarising the spectrum
+const NOVELTY_WINDOW_SECONDS = 1; // Spectral envelope compared over this long before vs after each frame
+const NOVELTY_FULL_SCORE_DB = 12; // Mean band level change that scores 100
+const SILENCE_MARGIN_DB = 6; // Above the noise floor (10th percentile frame level)
+const SILENCE_MAX_DB = -45; // Frames louder than this are never silence, however loud the programme
+const SILENCE_MIN_SECONDS = 0.25;
+const SILENCE_FULL_SCORE_SECONDS = 1; // Gaps this long score 100
+
+export type AudioCue = 'silence' | 'spectral';
+
+export interface AudioBoundarySignal {
+  hop: number; // Seconds per frame
+  silence: Float32Array; // 0-100 where each gap starts and where the sound resumes
+  spectral: Float32Array; // 0-100 per frame
+}
+
+/**
+ * Computes both discontinuity tracks for mono samples (the 16kHz analysis render).
+ * Runs in the audio worker; see computeBoundariesInWorker.
+ */
+export const computeAudioBoundarySignal = (
+  samples: Float32Array,
+  sampleRate: number,
+  onProgress?: (fraction: number) => void
+): AudioBoundarySignal => {
+  const frames = Math.max(1, Math.floor(samples.length / FRAME_SIZE));
+  const hop = FRAME_SIZE / sampleRate;
+  const progressEvery = Math.max(1, Math.floor(frames / 100));
+
+  const win = hannWindow(FRAME_SIZE);
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+  const bandEdges = logBandEdges(FRAME_SIZE / 2, BANDS);
+
+  const levelDb = new Float32Array(frames);
+  // Prefix sums of band levels, so window means cost O(BANDS) per frame
+  const prefix = new Float64Array((frames + 1) * BANDS);
+
+  for (let f = 0; f < frames; f++) {
+    const offset = f * FRAME_SIZE;
+    let energy = 0;
+    for (let i = offset; i < offset + FRAME_SIZE; i++) energy += samples[i] * samples[i];
+    levelDb[f] = 10 * Math.log10(energy / FRAME_SIZE + 1e-10);
+
+    const mags = magnitudeSpectrum(samples, offset, win, re, im);
+    for (let b = 0; b < BANDS; b++) {
+      let bandEnergy = 0;
+      for (let k = bandEdges[b]; k < bandEdges[b + 1]; k++) bandEnergy += mags[k] * mags[k];
+      const db = 10 * Math.log10(bandEnergy + 1e-10);
+      prefix[(f + 1) * BANDS + b] = prefix[f * BANDS + b] + db;
+    }
+
+    if (onProgress && f % progressEvery === 0) onProgress(f / frames);
+  }
+
+  const window = Math.max(1, Math.round(NOVELTY_WINDOW_SECONDS / hop));
+  const silence = silenceTrack(levelDb, hop);
+  // Peaks are picked on the unsaturated distance so a strong change still yields a single point
+  const spectral = pickPeaks(noveltyTrack(prefix, frames, window), window)
+    .map(distance => 100 * Math.min(1, distance / NOVELTY_FULL_SCORE_DB));
+
+  // Entering or leaving a silence gap also changes the spectrum; report it once, as silence
+  for (let f = frames - 1, nextSilent = Infinity; f >= 0; f--) {
+    if (silence[f] > 0) nextSilent = f;
+    if (spectral[f] > 0 && nextSilent - f <= window) spectral[f] = 0;
+  }
+  for (let f = 0, prevSilent = -Infinity; f < frames; f++) {
+    if (silence[f] > 0) prevSilent = f;
+    if (spectral[f] > 0 && f - prevSilent <= window) spectral[f] = 0;
+  }
+
+  return { hop, silence, spectral };
+};
+
+/**
+ * Strongest discontinuity in (from, to]. Used for the interval between two visual samples.
+ */
+export const audioBoundaryScore = (
+  signal: AudioBoundarySignal,
+  from: number,
+  to: number
+): { score: number; cue: AudioCue | null } => {
+  const first = Math.max(0, Math.floor(from / signal.hop) + 1);
+  const last = Math.min(signal.silence.length - 1, Math.floor(to / signal.hop));
+
+  let best = 0;
+  let cue: AudioCue | null = null;
+  for (let f = first; f <= last; f++) {
+    if (signal.silence[f] > best) { best = signal.silence[f]; cue = 'silence'; }
+    if (signal.spectral[f] > best) { best = signal.spectral[f]; cue = 'spectral'; }
+  }
+  return { score: best, cue };
+};
+
+// Bin boundaries for `bands` log-spaced bands over `bins` FFT bins (skipping DC)
+function logBandEdges(bins: number, bands: number): number[] {
+  const edges: number[] = [];
+  for (let b = 0; b <= bands; b++) {
+    edges.push(Math.min(bins, Math.max(b + 1, Math.round(Math.pow(bins, b / bands)))));
+  }
+  return edges;
+}
+
+// Scores each gap at its two edges (where the sound stops and where it resumes), like a spectral peak;
+// longer gaps score higher
+function silenceTrack(levelDb: Float32Array, hop: number): Float32Array {
+  const sorted = Array.from(levelDb).sort((a, b) => a - b);
+  const floor = sorted[Math.floor(sorted.length * 0.1)];
+  const threshold = Math.min(SILENCE_MAX_DB, floor + SILENCE_MARGIN_DB);
+  const minFrames = Math.ceil(SILENCE_MIN_SECONDS / hop);
+
+  const track = new Float32Array(levelDb.length);
+  let runStart = -1;
+  for (let f = 0; f <= levelDb.length; f++) {
+    if (f < levelDb.length && levelDb[f] < threshold) {
+      if (runStart === -1) runStart = f;
+      continue;
+    }
+    // Gaps touching the start or end of the audio are not transitions
+    if (runStart > 0 && f < levelDb.length && f - runStart >= minFrames) {
+      const score = 100 * Math.min(1, ((f - runStart) * hop) / SILENCE_FULL_SCORE_SECONDS);
+      track[runStart] = score;
+      track[f] = score;
+    }
+    runStart = -1;
+  }
+  return track;
+}
+
+// Keeps only frames that are the maximum within +-radius, so one change yields one point
+function pickPeaks(track: Float32Array, radius: number): Float32Array {
+  const peaks = new Float32Array(track.length);
+  for (let f = 0; f < track.length; f++) {
+    if (track[f] === 0) continue;
+    let isPeak = true;
+    for (let g = Math.max(0, f - radius); g <= Math.min(track.length - 1, f + radius) && isPeak; g++) {
+      // Ties resolve to the first frame
+      if (track[g] > track[f] || (track[g] === track[f] && g < f)) isPeak = false;
+    }
+    if (isPeak) peaks[f] = track[f];
+  }
+  return peaks;
+}
+
+function noveltyTrack(prefix: Float64Array, frames: number, window: number): Float32Array {
+  const track = new Float32Array(frames);
+  for (let f = window; f <= frames - window; f++) {
+    let distance = 0;
+    for (let b = 0; b < BANDS; b++) {
+      const before = (prefix[f * BANDS + b] - prefix[(f - window) * BANDS + b]) / window;
+      const after = (prefix[(f + window) * BANDS + b] - prefix[f * BANDS + b]) / window;
+      distance += Math.abs(after - before);
+    }
+    track[f] = distance / BANDS; // Mean band level change in dB
+  }
+  return track;
+}
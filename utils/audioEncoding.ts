@@ -0,0 +1,397 @@
+/**
+ * DOM-free PCM helpers used by the audio worker: downmix, resampling, WAV/FLAC encoding and base64.
+ * Everything here works on plain typed arrays so it can run off the main thread.
+ */
+
+export type ProgressCallback = (fraction: number) => void;
+
+// Resampler: windowed-sinc with this many zero crossings each side, looked up from a precomputed table
+const SINC_ZERO_CROSSINGS = 8;
+const SINC_TABLE_RESOLUTION = 512; // Table entries per zero crossing
+
+// FLAC: fixed block size and the highest fixed predictor order tried per block
+const FLAC_BLOCK_SIZE = 4096;
+const FLAC_MAX_FIXED_ORDER = 4;
+const FLAC_MAX_RICE_PARAMETER = 14; // 15 is the escape code
+const FLAC_SAMPLE_RATE_CODES: Record<number, number> = {
+  8000: 0b0100, 16000: 0b0101, 22050: 0b0110, 24000: 0b0111,
+  32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011,
+};
+
+// Progress is reported at most this often (fraction of the job)
+const PROGRESS_STEP = 0.01;
+
+/**
+ * Averages all channels into one.
+ */
+export const downmix = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+
+  const length = Math.min(...channels.map(c => c.length));
+  const mono = new Float32Array(length);
+  const gain = 1 / channels.length;
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (let ch = 0; ch < channels.length; ch++) sum += channels[ch][i];
+    mono[i] = sum * gain;
+  }
+  return mono;
+};
+
+/**
+ * Band-limited resampling. When downsampling, the kernel is stretched so it also acts as the anti-alias filter.
+ */
+export const resample = (
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number,
+  onProgress?: ProgressCallback
+): Float32Array => {
+  if (fromRate === toRate) return samples;
+
+  const ratio = fromRate / toRate;
+  const cutoff = Math.min(1, 1 / ratio); // Normalised to the input rate
+  const halfWidth = Math.ceil(SINC_ZERO_CROSSINGS / cutoff); // Input samples each side
+  const table = buildSincTable();
+  const outLength = Math.floor(samples.length / ratio);
+  const output = new Float32Array(outLength);
+
+  let nextReport = PROGRESS_STEP;
+  for (let i = 0; i < outLength; i++) {
+    const center = i * ratio;
+    const first = Math.max(0, Math.floor(center) - halfWidth + 1);
+    const last = Math.min(samples.length - 1, Math.floor(center) + halfWidth);
+
+    let sum = 0;
+    let weightSum = 0;
+    for (let j = first; j <= last; j++) {
+      // Distance in zero crossings of the (possibly stretched) kernel
+      const distance = Math.abs(center - j) * cutoff;
+      const index = Math.round(distance * SINC_TABLE_RESOLUTION);
+      if (index >= table.length) continue;
+      const w = table[index];
+      sum += samples[j] * w;
+      weightSum += w;
+    }
+    // Normalising by the weight sum keeps DC gain at 1, including at the edges
+    output[i] = weightSum !== 0 ? sum / weightSum : 0;
+
+    if (onProgress && i / outLength >= nextReport) {
+      onProgress(i / outLength);
+      nextReport += PROGRESS_STEP;
+    }
+  }
+  return output;
+};
+
+let sincTable: Float32Array | null = null;
+
+// sinc(x) * Blackman window over [0, SINC_ZERO_CROSSINGS)
+function buildSincTable(): Float32Array {
+  if (sincTable) return sincTable;
+
+  const size = SINC_ZERO_CROSSINGS * SINC_TABLE_RESOLUTION;
+  const table = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = i / SINC_TABLE_RESOLUTION;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const phase = Math.PI * (1 + x / SINC_ZERO_CROSSINGS); // Right half of the window
+    const blackman = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+    table[i] = sinc * blackman;
+  }
+  sincTable = table;
+  return table;
+}
+
+const toInt16 = (sample: number) => {
+  const clamped = Math.max(-1, Math.min(1, sample));
+  return (clamped < 0 ? clamped * 32768 : clamped * 32767) | 0;
+};
+
+/**
+ * 16-bit PCM WAV, channels interleaved.
+ */
+export const encodeWav = (channels: Float32Array[], sampleRate: number, onProgress?: ProgressCallback): ArrayBuffer => {
+  const numOfChan = channels.length;
+  const frames = channels[0].length;
+  const length = frames * numOfChan * 2 + 44;
+  const buffer = new ArrayBuffer(length);
+  const view = new DataView(buffer);
+
+  // WAVE header
+  view.setUint32(0, 0x46464952, true); // "RIFF"
+  view.setUint32(4, length - 8, true);
+  view.setUint32(8, 0x45564157, true); // "WAVE"
+  view.setUint32(12, 0x20746d66, true); // "fmt " chunk
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM (uncompressed)
+  view.setUint16(22, numOfChan, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2 * numOfChan, true); // avg. bytes/sec
+  view.setUint16(32, numOfChan * 2, true); // block-align
+  view.setUint16(34, 16, true); // 16-bit
+  view.setUint32(36, 0x61746164, true); // "data" chunk
+  view.setUint32(40, length - 44, true);
+
+  let offset = 44;
+  let nextReport = PROGRESS_STEP;
+  for (let pos = 0; pos < frames; pos++) {
+    for (let ch = 0; ch < numOfChan; ch++) {
+      view.setInt16(offset, toInt16(channels[ch][pos]), true);
+      offset += 2;
+    }
+    if (onProgress && pos / frames >= nextReport) {
+      onProgress(pos / frames);
+      nextReport += PROGRESS_STEP;
+    }
+  }
+  return buffer;
+};
+
+/**
+ * 16-bit mono FLAC using fixed predictors and Rice-coded residuals.
+ * Roughly halves the payload of speech-heavy audio compared to WAV, losslessly.
+ */
+export const encodeFlac = (samples: Float32Array, sampleRate: number, onProgress?: ProgressCallback): Uint8Array => {
+  const pcm = new Int32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) pcm[i] = toInt16(samples[i]);
+
+  const writer = createBitWriter(Math.ceil(samples.length * 2 * 0.75) + 1024);
+
+  // Stream marker and STREAMINFO (the only, and therefore last, metadata block)
+  writer.writeBits(0x664c6143, 32); // "fLaC"
+  writer.writeBits(1, 1); // Last metadata block
+  writer.writeBits(0, 7); // STREAMINFO
+  writer.writeBits(34, 24);
+  writer.writeBits(FLAC_BLOCK_SIZE, 16); // Min block size (the final block may be shorter; allowed)
+  writer.writeBits(FLAC_BLOCK_SIZE, 16); // Max block size
+  writer.writeBits(0, 24); // Min frame size unknown
+  writer.writeBits(0, 24); // Max frame size unknown
+  writer.writeBits(sampleRate, 20);
+  writer.writeBits(0, 3); // Channels - 1
+  writer.writeBits(15, 5); // Bits per sample - 1
+  writer.writeBits(Math.floor(pcm.length / 0x10000), 20); // Total samples (36 bits, high part)
+  writer.writeBits(pcm.length & 0xffff, 16);
+  for (let i = 0; i < 4; i++) writer.writeBits(0, 32); // MD5 not computed
+
+  const blocks = Math.ceil(pcm.length / FLAC_BLOCK_SIZE);
+  let nextReport = PROGRESS_STEP;
+  for (let b = 0; b < blocks; b++) {
+    const block = pcm.subarray(b * FLAC_BLOCK_SIZE, Math.min(pcm.length, (b + 1) * FLAC_BLOCK_SIZE));
+    writeFlacFrame(writer, block, b, sampleRate);
+
+    if (onProgress && b / blocks >= nextReport) {
+      onProgress(b / blocks);
+      nextReport += PROGRESS_STEP;
+    }
+  }
+
+  return writer.finish();
+};
+
+function writeFlacFrame(writer: BitWriter, block: Int32Array, frameNumber: number, sampleRate: number) {
+  const frameStart = writer.byteLength;
+
+  // Header
+  writer.writeBits(0x3ffe, 14); // Sync code
+  writer.writeBits(0, 1); // Reserved
+  writer.writeBits(0, 1); // Fixed block size stream
+  writer.writeBits(0b0111, 4); // Block size stored as 16 bits at the end of the header
+  writer.writeBits(FLAC_SAMPLE_RATE_CODES[sampleRate] ?? 0b0000, 4); // 0000 = from STREAMINFO, which some parsers reject
+  writer.writeBits(0b0000, 4); // Mono
+  writer.writeBits(0b100, 3); // 16 bits per sample
+  writer.writeBits(0, 1); // Reserved
+  writeUtf8Number(writer, frameNumber);
+  writer.writeBits(block.length - 1, 16);
+  writer.writeBits(crc8(writer.bytesFrom(frameStart)), 8);
+
+  // Subframe: pick the fixed predictor with the smallest residual
+  let bestOrder = 0;
+  let bestCost = Infinity;
+  const maxOrder = Math.min(FLAC_MAX_FIXED_ORDER, block.length - 1);
+  for (let order = 0; order <= maxOrder; order++) {
+    let cost = 0;
+    for (let i = order; i < block.length; i++) cost += Math.abs(fixedResidual(block, i, order));
+    if (cost < bestCost) {
+      bestCost = cost;
+      bestOrder = order;
+    }
+  }
+
+  writer.writeBits(0, 1); // Zero padding
+  writer.writeBits(0b001000 | bestOrder, 6); // SUBFRAME_FIXED
+  writer.writeBits(0, 1); // No wasted bits
+
+  for (let i = 0; i < bestOrder; i++) writer.writeSigned(block[i], 16); // Warm-up samples
+
+  // Residual: Rice coding, 4-bit parameters, partition order 0
+  const residual = new Uint32Array(block.length - bestOrder);
+  for (let i = bestOrder; i < block.length; i++) {
+    const r = fixedResidual(block, i, bestOrder);
+    residual[i - bestOrder] = r >= 0 ? r * 2 : -r * 2 - 1; // Zig-zag fold
+  }
+  const k = riceParameter(residual);
+
+  writer.writeBits(0b00, 2);
+  writer.writeBits(0, 4);
+  writer.writeBits(k, 4);
+  for (let i = 0; i < residual.length; i++) {
+    writer.writeUnary(residual[i] >>> k);
+    if (k > 0) writer.writeBits(residual[i] & ((1 << k) - 1), k);
+  }
+
+  // Footer
+  writer.alignToByte();
+  writer.writeBits(crc16(writer.bytesFrom(frameStart)), 16);
+}
+
+function fixedResidual(x: Int32Array, i: number, order: number): number {
+  switch (order) {
+    case 0: return x[i];
+    case 1: return x[i] - x[i - 1];
+    case 2: return x[i] - 2 * x[i - 1] + x[i - 2];
+    case 3: return x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3];
+    default: return x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+  }
+}
+
+// Exact Rice cost for the parameters around the mean-based estimate
+function riceParameter(folded: Uint32Array): number {
+  if (folded.length === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < folded.length; i++) sum += folded[i];
+  const mean = sum / folded.length;
+  const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+
+  let best = 0;
+  let bestBits = Infinity;
+  for (let k = Math.max(0, estimate - 1); k <= Math.min(FLAC_MAX_RICE_PARAMETER, estimate + 1); k++) {
+    let bits = folded.length * (k + 1);
+    for (let i = 0; i < folded.length; i++) bits += folded[i] >>> k;
+    if (bits < bestBits) {
+      bestBits = bits;
+      best = k;
+    }
+  }
+  return best;
+}
+
+// FLAC frame numbers use the UTF-8 variable-length scheme
+function writeUtf8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  const continuation = value < 0x800 ? 1 : value < 0x10000 ? 2 : value < 0x200000 ? 3 : value < 0x4000000 ? 4 : 5;
+  const lead = (0xff00 >> (continuation + 1)) & 0xff; // 110xxxxx, 1110xxxx, ...
+  writer.writeBits(lead | Math.floor(value / 2 ** (6 * continuation)), 8);
+  for (let c = continuation - 1; c >= 0; c--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * c)) & 0x3f), 8);
+  }
+}
+
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i];
+    for (let b = 0; b < 8; b++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i] << 8;
+    for (let b = 0; b < 8; b++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+}
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+/**
+ * MSB-first bit writer backed by a growable byte array.
+ */
+function createBitWriter(initialSize: number) {
+  let bytes = new Uint8Array(initialSize);
+  let length = 0; // Whole bytes written
+  let accumulator = 0;
+  let bitCount = 0; // Bits pending in the accumulator (< 8)
+
+  const pushByte = (byte: number) => {
+    if (length === bytes.length) {
+      const grown = new Uint8Array(bytes.length * 2);
+      grown.set(bytes);
+      bytes = grown;
+    }
+    bytes[length++] = byte;
+  };
+
+  // Up to 9 bits
+  const pushBits = (value: number, count: number) => {
+    accumulator = (accumulator << count) | value;
+    bitCount += count;
+    while (bitCount >= 8) {
+      bitCount -= 8;
+      pushByte((accumulator >>> bitCount) & 0xff);
+    }
+    accumulator &= (1 << bitCount) - 1;
+  };
+
+  const alignToByte = () => {
+    if (bitCount > 0) pushBits(0, 8 - bitCount);
+  };
+
+  return {
+    get byteLength() {
+      return length;
+    },
+
+    // Up to 32 bits
+    writeBits(value: number, count: number) {
+      for (let shift = count - 8; shift > -8; shift -= 8) {
+        const bits = Math.min(8, shift + 8);
+        const chunk = shift >= 0 ? (value >>> shift) & 0xff : value & ((1 << bits) - 1);
+        pushBits(chunk, bits);
+      }
+    },
+
+    writeSigned(value: number, count: number) {
+      this.writeBits(value & ((1 << count) - 1), count);
+    },
+
+    writeUnary(zeros: number) {
+      while (zeros >= 8) {
+        pushBits(0, 8);
+        zeros -= 8;
+      }
+      pushBits(1, zeros + 1);
+    },
+
+    alignToByte,
+
+    // Completed bytes since `start` (the writer must be byte-aligned for CRCs to be meaningful)
+    bytesFrom(start: number): Uint8Array {
+      return bytes.subarray(start, length);
+    },
+
+    finish(): Uint8Array {
+      alignToByte();
+      return bytes.slice(0, length);
+    },
+  };
+}
+
+/**
+ * Base64 without FileReader (not needed in workers); encodes in slices to keep the argument list bounded.
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  const SLICE = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += SLICE) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + SLICE) as unknown as number[]);
+  }
+  return btoa(binary);
+};
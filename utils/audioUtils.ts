@@ -1,100 +1,213 @@
+import { VadRegion, AudioEncoding, EncodedAudio } from "../types";
+import { AudioJobOptions, resampleInWorker, encodeInWorker } from "./audioWorkerClient";
+
+// 16kHz mono is good for speech/AI and keeps the token count down
+export const ANALYSIS_SAMPLE_RATE = 16000;
+
 /**
  * Extracts audio from a video file and converts it to a base64 PCM/WAV string
  * suitable for Gemini API consumption.
  */
-export const extractAudioFromVideo = async (videoFile: File): Promise<string> => {
-  // 1. Read file as ArrayBuffer
+export const extractAudioFromVideo = async (videoFile: File, options?: AudioJobOptions): Promise<string> => {
+  const renderedBuffer = await decodeAudioFromVideo(videoFile, options);
+  const encoded = await encodeAudioBuffer(renderedBuffer, 'wav', { signal: options?.signal });
+  return encoded.base64;
+};
+
+/**
+ * Decodes the video's audio track at its native sample rate and channel count.
+ * Loudness measurement needs this; everything else uses the 16kHz mono render.
+ * The browser decode cannot be stopped, so aborting rejects at once and the result is discarded.
+ */
+export const decodeNativeAudio = async (videoFile: File, signal?: AbortSignal): Promise<AudioBuffer> => {
   const arrayBuffer = await videoFile.arrayBuffer();
-  
-  // 2. Decode audio data using OfflineAudioContext (faster than real-time)
-  // We use a dummy rate first to decode, then we'll resample if needed.
+  signal?.throwIfAborted();
   const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-  const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-
-  // 3. Process to Mono and Lower Sample Rate (16kHz is good for speech/AI) to save tokens
-  const targetSampleRate = 16000;
-  const offlineCtx = new OfflineAudioContext(1, audioBuffer.duration * targetSampleRate, targetSampleRate);
-  
-  const source = offlineCtx.createBufferSource();
-  source.buffer = audioBuffer;
-  source.connect(offlineCtx.destination);
-  source.start();
-  
-  const renderedBuffer = await offlineCtx.startRendering();
-
-  // 4. Convert AudioBuffer to WAV Blob -> Base64
-  const wavBlob = bufferToWav(renderedBuffer);
-  return blobToBase64(wavBlob);
+  try {
+    return await new Promise<AudioBuffer>((resolve, reject) => {
+      const onAbort = () => reject(signal?.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      audioContext.decodeAudioData(arrayBuffer)
+        .then(resolve, reject)
+        .finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+  } finally {
+    audioContext.close();
+  }
+};
+
+/**
+ * Decodes the video's audio track and renders it to 16kHz mono.
+ * Decoding is done by the browser; downmix and resampling run in a worker and report progress.
+ */
+export const decodeAudioFromVideo = async (videoFile: File, options?: AudioJobOptions): Promise<AudioBuffer> => {
+  // 1-2. Read and decode the file
+  const audioBuffer = await decodeNativeAudio(videoFile, options?.signal);
+
+  // 3. Process to Mono and Lower Sample Rate to save tokens
+  const samples = await resampleInWorker(
+    copyChannels(audioBuffer),
+    audioBuffer.sampleRate,
+    ANALYSIS_SAMPLE_RATE,
+    options
+  );
+
+  const rendered = new AudioBuffer({ numberOfChannels: 1, length: Math.max(1, samples.length), sampleRate: ANALYSIS_SAMPLE_RATE });
+  rendered.copyToChannel(samples, 0);
+  return rendered;
 };
 
-// Helper: Convert AudioBuffer to WAV format
-function bufferToWav(abuffer: AudioBuffer) {
-  const numOfChan = abuffer.numberOfChannels;
-  const length = abuffer.length * numOfChan * 2 + 44;
-  const buffer = new ArrayBuffer(length);
-  const view = new DataView(buffer);
-  const channels = [];
-  let i;
-  let sample;
-  let offset = 0;
-  let pos = 0;
-
-  // write WAVE header
-  setUint32(0x46464952); // "RIFF"
-  setUint32(length - 8); // file length - 8
-  setUint32(0x45564157); // "WAVE"
-
-  setUint32(0x20746d66); // "fmt " chunk
-  setUint32(16); // length = 16
-  setUint16(1); // PCM (uncompressed)
-  setUint16(numOfChan);
-  setUint32(abuffer.sampleRate);
-  setUint32(abuffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-  setUint16(numOfChan * 2); // block-align
-  setUint16(16); // 16-bit (hardcoded in this writer)
-
-  setUint32(0x61746164); // "data" - chunk
-  setUint32(length - pos - 4); // chunk length
-
-  // write interleaved data
-  for (i = 0; i < abuffer.numberOfChannels; i++)
-    channels.push(abuffer.getChannelData(i));
-
-  while (pos < abuffer.length) {
-    for (i = 0; i < numOfChan; i++) {
-      // interleave channels
-      sample = Math.max(-1, Math.min(1, channels[i][pos])); // clamp
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; // scale to 16-bit signed int
-      view.setInt16(44 + offset, sample, true); // write 16-bit sample
-      offset += 2;
+/**
+ * Encodes an AudioBuffer for the audio model (WAV, or FLAC to cut the payload) as base64, in a worker.
+ */
+export const encodeAudioBuffer = (
+  buffer: AudioBuffer,
+  encoding: AudioEncoding = 'wav',
+  options?: AudioJobOptions
+): Promise<EncodedAudio> => encodeInWorker(copyChannels(buffer), buffer.sampleRate, encoding, options);
+
+// getChannelData returns views of the buffer's own storage, which cannot be transferred
+function copyChannels(buffer: AudioBuffer): Float32Array[] {
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) channels.push(buffer.getChannelData(ch).slice());
+  return channels;
+}
+
+/**
+ * Copies the [startTime, endTime) window of a buffer into a new AudioBuffer.
+ */
+export const sliceAudioBuffer = (buffer: AudioBuffer, startTime: number, endTime: number): AudioBuffer => {
+  const startSample = Math.max(0, Math.floor(startTime * buffer.sampleRate));
+  const endSample = Math.min(buffer.length, Math.ceil(endTime * buffer.sampleRate));
+  const length = Math.max(1, endSample - startSample);
+
+  const slice = new AudioBuffer({
+    numberOfChannels: buffer.numberOfChannels,
+    length,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    slice.copyToChannel(buffer.getChannelData(ch).subarray(startSample, startSample + length), ch);
+  }
+  return slice;
+};
+
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+/**
+ * Reduces the first channel to min/max pairs per bucket for waveform drawing.
+ */
+export const computePeaks = (buffer: AudioBuffer, buckets: number): WaveformPeaks => {
+  const data = buffer.getChannelData(0);
+  const min = new Float32Array(buckets);
+  const max = new Float32Array(buckets);
+  const samplesPerBucket = data.length / buckets;
+
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor(b * samplesPerBucket);
+    const end = Math.min(data.length, Math.max(start + 1, Math.floor((b + 1) * samplesPerBucket)));
+    let lo = 0;
+    let hi = 0;
+    for (let i = start; i < end; i++) {
+      const sample = data[i];
+      if (sample < lo) lo = sample;
+      if (sample > hi) hi = sample;
     }
-    pos++;
+    min[b] = lo;
+    max[b] = hi;
   }
 
-  return new Blob([buffer], { type: "audio/wav" });
+  return { min, max };
+};
+
+// VOICE ACTIVITY DETECTION
+const VAD_FRAME_SECONDS = 0.02; // 20ms analysis frames
+const VAD_ENERGY_MARGIN_DB = 12; // Frames this far above the noise floor count as active
+const VAD_MIN_ENERGY_DB = -55; // Never treat anything quieter than this as speech; below it is silence
+const VAD_MAX_ZCR = 0.35; // Broadband noise/hiss crosses zero far more often than voice
+const VAD_HANGOVER_SECONDS = 0.3; // Bridge short pauses between words
+const VAD_MIN_SPEECH_SECONDS = 0.15; // Drop clicks and isolated transients
+
+/**
+ * Offline energy + zero-crossing voice activity detector.
+ * Returns contiguous speech / non-speech regions covering the whole buffer; non-speech regions are
+ * further split into silence and audible non-speech (music, effects, ambience).
+ */
+export const detectVoiceActivity = (buffer: AudioBuffer): VadRegion[] => {
+  const data = buffer.getChannelData(0);
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * VAD_FRAME_SECONDS));
+  const frameCount = Math.floor(data.length / frameSize);
+  if (frameCount === 0) return [];
 
-  function setUint16(data: number) {
-    view.setUint16(pos, data, true);
-    pos += 2;
+  // 1. Per-frame energy (dB) and zero-crossing rate
+  const energies = new Float32Array(frameCount);
+  const zcrs = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let sumSquares = 0;
+    let crossings = 0;
+    const offset = f * frameSize;
+    for (let i = 0; i < frameSize; i++) {
+      const sample = data[offset + i];
+      sumSquares += sample * sample;
+      if (i > 0 && (sample >= 0) !== (data[offset + i - 1] >= 0)) crossings++;
+    }
+    energies[f] = 10 * Math.log10(sumSquares / frameSize + 1e-10);
+    zcrs[f] = crossings / frameSize;
   }
 
-  function setUint32(data: number) {
-    view.setUint32(pos, data, true);
-    pos += 4;
+  // 2. Adaptive threshold from the noise floor (10th percentile of frame energy)
+  const sorted = Array.from(energies).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  const threshold = Math.max(VAD_MIN_ENERGY_DB, noiseFloor + VAD_ENERGY_MARGIN_DB);
+
+  const active: boolean[] = [];
+  const audible: boolean[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    active.push(energies[f] > threshold && zcrs[f] < VAD_MAX_ZCR);
+    audible.push(energies[f] > VAD_MIN_ENERGY_DB);
   }
-}
 
-// Helper: Blob to Base64
-function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64data = reader.result as string;
-      // Remove data url prefix (e.g. "data:audio/wav;base64,")
-      const content = base64data.split(',')[1];
-      resolve(content);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
+  // 3. Smooth: fill short gaps, then drop short bursts (clicks do not make a silent stretch audible)
+  const hangover = Math.round(VAD_HANGOVER_SECONDS / VAD_FRAME_SECONDS);
+  const minSpeech = Math.round(VAD_MIN_SPEECH_SECONDS / VAD_FRAME_SECONDS);
+  fillRuns(active, false, hangover, true);
+  fillRuns(active, true, minSpeech, false);
+  fillRuns(audible, true, minSpeech, false);
+
+  // 4. Collapse frames into regions
+  const regions: VadRegion[] = [];
+  const frameDuration = frameSize / buffer.sampleRate;
+  active.forEach((isSpeech, f) => {
+    const isSilent = !isSpeech && !audible[f];
+    const last = regions[regions.length - 1];
+    if (last && last.isSpeech === isSpeech && last.isSilent === isSilent) {
+      last.end = (f + 1) * frameDuration;
+    } else {
+      regions.push({ start: f * frameDuration, end: (f + 1) * frameDuration, isSpeech, isSilent });
+    }
   });
-}
\ No newline at end of file
+  regions[regions.length - 1].end = buffer.duration;
+
+  return regions;
+};
+
+// Inverts runs of `value` shorter than `maxLength` frames (optionally only runs not touching either edge)
+function fillRuns(flags: boolean[], value: boolean, maxLength: number, interiorOnly: boolean) {
+  let runStart = -1;
+  for (let i = 0; i <= flags.length; i++) {
+    if (i < flags.length && flags[i] === value) {
+      if (runStart === -1) runStart = i;
+      continue;
+    }
+    if (runStart !== -1) {
+      const isInterior = runStart > 0 && i < flags.length;
+      if (i - runStart < maxLength && (!interiorOnly || isInterior)) {
+        for (let j = runStart; j < i; j++) flags[j] = !value;
+      }
+      runStart = -1;
+    }
+  }
+}
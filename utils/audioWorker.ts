@@ -0,0 +1,192 @@
+import { downmix, resample, encodeWav, encodeFlac, bytesToBase64 } from "./audioEncoding";
+import { computeAudioBoundarySignal } from "./audioBoundaries";
+import type { ChannelBlocks } from "../types";
+import type { AudioWorkerRequest, AudioWorkerResponse } from "./audioWorkerClient";
+
+/**
+ * Worker entry point: resampling, encoding, loudness and scene-detection audio cues run here so the UI stays responsive on long files.
+ * One job per worker; the client terminates the worker to cancel.
+ */
+
+// BS.1770 true peak (loudness jobs)
+const TRUE_PEAK_OVERSAMPLE = 4;
+const TRUE_PEAK_TAPS_PER_PHASE = 12;
+// Inter-sample peaks exceed sample peaks by at most ~3dB, so only oversample around loud samples
+const TRUE_PEAK_SEARCH_RATIO = 0.5;
+
+const post = (message: AudioWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const onProgress = (fraction: number) => post({ type: 'progress', fraction });
+
+self.onmessage = (event: MessageEvent<AudioWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'resample') {
+      const mono = downmix(request.channels);
+      const samples = resample(mono, request.sampleRate, request.targetRate, onProgress);
+      post({ type: 'resampled', samples }, [samples.buffer]);
+      return;
+    }
+
+    if (request.type === 'loudness') {
+      const { power, peak } = measureChannelBlocks(request.channels[0], request.sampleRate, request.subBlockSize, onProgress);
+      post({ type: 'loudness', power, peak }, [power.buffer, peak.buffer]);
+      return;
+    }
+
+    if (request.type === 'boundaries') {
+      const { hop, silence, spectral } = computeAudioBoundarySignal(request.channels[0], request.sampleRate, onProgress);
+      post({ type: 'boundaries', hop, silence, spectral }, [silence.buffer, spectral.buffer]);
+      return;
+    }
+
+    if (request.encoding === 'flac') {
+      const bytes = encodeFlac(downmix(request.channels), request.sampleRate, onProgress);
+      post({ type: 'encoded', base64: bytesToBase64(bytes), mimeType: 'audio/flac' });
+    } else {
+      const wav = encodeWav(request.channels, request.sampleRate, onProgress);
+      post({ type: 'encoded', base64: bytesToBase64(new Uint8Array(wav)), mimeType: 'audio/wav' });
+    }
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message || 'Audio worker failed' });
+  }
+};
+
+// K-weighted mean square and true peak of one channel per sub-block, streamed through the filters
+// without keeping a filtered copy (see utils/loudness.ts for the gating built on top)
+function measureChannelBlocks(
+  samples: Float32Array,
+  sampleRate: number,
+  subBlockSize: number,
+  onProgress: (fraction: number) => void
+): ChannelBlocks {
+  const subBlockCount = Math.ceil(samples.length / subBlockSize);
+  const power = new Float64Array(subBlockCount);
+  const peak = new Float32Array(subBlockCount);
+  const [shelf, highPass] = kWeightingStages(sampleRate);
+  const shelfState = { x1: 0, x2: 0, y1: 0, y2: 0 };
+  const highPassState = { x1: 0, x2: 0, y1: 0, y2: 0 };
+  const progressEvery = Math.max(1, Math.floor(subBlockCount / 100));
+
+  for (let b = 0; b < subBlockCount; b++) {
+    const start = b * subBlockSize;
+    const end = Math.min(samples.length, start + subBlockSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      const y = biquadStep(highPass, highPassState, biquadStep(shelf, shelfState, samples[i]));
+      sum += y * y;
+    }
+    power[b] = sum / subBlockSize;
+    peak[b] = truePeak(samples, start, end);
+
+    if (b % progressEvery === 0) onProgress(b / subBlockCount);
+  }
+
+  return { power, peak };
+}
+
+interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * The two K-weighting stages (high shelf + RLB high-pass).
+ * Coefficients are derived for the channel's sample rate, matching the 48kHz reference response.
+ */
+function kWeightingStages(sampleRate: number): [BiquadCoefficients, BiquadCoefficients] {
+  // Stage 1: high shelf (+4dB above ~1.5kHz)
+  const f0 = 1681.974450955533;
+  const G = 3.999843853973347;
+  const Q = 0.7071752369554196;
+  const K = Math.tan((Math.PI * f0) / sampleRate);
+  const Vh = Math.pow(10, G / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  const a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  // Stage 2: high-pass at ~38Hz
+  const f1 = 38.13547087602444;
+  const Q1 = 0.5003270373238773;
+  const K1 = Math.tan((Math.PI * f1) / sampleRate);
+  const a01 = 1 + K1 / Q1 + K1 * K1;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K1 * K1 - 1)) / a01,
+    a2: (1 - K1 / Q1 + K1 * K1) / a01,
+  };
+
+  return [shelf, highPass];
+}
+
+// One sample through a direct-form I biquad; `state` carries the delay line between calls
+function biquadStep(c: BiquadCoefficients, state: { x1: number; x2: number; y1: number; y2: number }, x: number): number {
+  const y = c.b0 * x + c.b1 * state.x1 + c.b2 * state.x2 - c.a1 * state.y1 - c.a2 * state.y2;
+  state.x2 = state.x1; state.x1 = x;
+  state.y2 = state.y1; state.y1 = y;
+  return y;
+}
+
+let interpolationKernel: Float32Array[] | null = null;
+
+// Windowed-sinc polyphase kernel for 4x oversampling, built once
+function getInterpolationKernel(): Float32Array[] {
+  if (interpolationKernel) return interpolationKernel;
+
+  const phases: Float32Array[] = [];
+  const half = TRUE_PEAK_TAPS_PER_PHASE / 2;
+  for (let p = 0; p < TRUE_PEAK_OVERSAMPLE; p++) {
+    const taps = new Float32Array(TRUE_PEAK_TAPS_PER_PHASE);
+    const frac = p / TRUE_PEAK_OVERSAMPLE;
+    for (let t = 0; t < TRUE_PEAK_TAPS_PER_PHASE; t++) {
+      const x = t - half + 1 - frac;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const hann = 0.5 * (1 + Math.cos((Math.PI * x) / (half + 1)));
+      taps[t] = sinc * hann;
+    }
+    phases.push(taps);
+  }
+  interpolationKernel = phases;
+  return phases;
+}
+
+// Linear true peak of samples [start, end); only samples near the sample peak are interpolated
+function truePeak(samples: Float32Array, start: number, end: number): number {
+  const kernel = getInterpolationKernel();
+  const half = TRUE_PEAK_TAPS_PER_PHASE / 2;
+
+  let peak = 0;
+  for (let i = start; i < end; i++) {
+    const v = Math.abs(samples[i]);
+    if (v > peak) peak = v;
+  }
+  const searchFloor = peak * TRUE_PEAK_SEARCH_RATIO;
+
+  for (let i = start; i < end; i++) {
+    if (Math.abs(samples[i]) < searchFloor) continue;
+    for (let p = 1; p < TRUE_PEAK_OVERSAMPLE; p++) {
+      const taps = kernel[p];
+      let v = 0;
+      for (let t = 0; t < TRUE_PEAK_TAPS_PER_PHASE; t++) {
+        const idx = i + t - half + 1;
+        if (idx >= 0 && idx < samples.length) v += samples[idx] * taps[t];
+      }
+      const abs = Math.abs(v);
+      if (abs > peak) peak = abs;
+    }
+  }
+  return peak;
+}
@@ -0,0 +1,125 @@
+import { AudioEncoding, EncodedAudio, ChannelBlocks } from "../types";
+import type { AudioBoundarySignal } from "./audioBoundaries";
+
+export type AudioWorkerRequest =
+  | { type: 'resample'; channels: Float32Array[]; sampleRate: number; targetRate: number }
+  | { type: 'encode'; channels: Float32Array[]; sampleRate: number; encoding: AudioEncoding }
+  | { type: 'loudness'; channels: Float32Array[]; sampleRate: number; subBlockSize: number } // One channel per job
+  | { type: 'boundaries'; channels: Float32Array[]; sampleRate: number }; // Mono
+
+export type AudioWorkerResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'resampled'; samples: Float32Array }
+  | { type: 'encoded'; base64: string; mimeType: string }
+  | { type: 'loudness'; power: Float64Array; peak: Float32Array }
+  | { type: 'boundaries'; hop: number; silence: Float32Array; spectral: Float32Array }
+  | { type: 'error'; message: string };
+
+export interface AudioJobOptions {
+  onProgress?: (fraction: number) => void; // 0-1
+  signal?: AbortSignal;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Runs one request in a fresh worker. The channel buffers are transferred, so callers must pass copies.
+ * Aborting terminates the worker and rejects with an AbortError.
+ */
+const runAudioJob = (request: AudioWorkerRequest, options: AudioJobOptions = {}): Promise<AudioWorkerResponse> =>
+  new Promise((resolve, reject) => {
+    const { onProgress, signal } = options;
+    if (signal?.aborted) {
+      reject(new DOMException('Audio processing cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./audioWorker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException('Audio processing cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<AudioWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      finish();
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+      } else {
+        onProgress?.(1);
+        resolve(message);
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Audio worker crashed'));
+    };
+
+    worker.postMessage(request, request.channels.map(c => c.buffer));
+  });
+
+/**
+ * Downmixes to mono and resamples off the main thread.
+ */
+export const resampleInWorker = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  targetRate: number,
+  options?: AudioJobOptions
+): Promise<Float32Array> => {
+  const response = await runAudioJob({ type: 'resample', channels, sampleRate, targetRate }, options);
+  if (response.type !== 'resampled') throw new Error('Unexpected audio worker response');
+  return response.samples;
+};
+
+/**
+ * K-weighted power and true peak of one channel per sub-block of `subBlockSize` samples, off the main thread.
+ */
+export const measureChannelInWorker = async (
+  samples: Float32Array,
+  sampleRate: number,
+  subBlockSize: number,
+  options?: AudioJobOptions
+): Promise<ChannelBlocks> => {
+  const response = await runAudioJob({ type: 'loudness', channels: [samples], sampleRate, subBlockSize }, options);
+  if (response.type !== 'loudness') throw new Error('Unexpected audio worker response');
+  return { power: response.power, peak: response.peak };
+};
+
+/**
+ * Silence and spectral-change tracks for scene detection, off the main thread.
+ */
+export const computeBoundariesInWorker = async (
+  samples: Float32Array,
+  sampleRate: number,
+  options?: AudioJobOptions
+): Promise<AudioBoundarySignal> => {
+  const response = await runAudioJob({ type: 'boundaries', channels: [samples], sampleRate }, options);
+  if (response.type !== 'boundaries') throw new Error('Unexpected audio worker response');
+  return { hop: response.hop, silence: response.silence, spectral: response.spectral };
+};
+
+/**
+ * Encodes PCM as WAV or FLAC and base64 off the main thread.
+ */
+export const encodeInWorker = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  encoding: AudioEncoding,
+  options?: AudioJobOptions
+): Promise<EncodedAudio> => {
+  const response = await runAudioJob({ type: 'encode', channels, sampleRate, encoding }, options);
+  if (response.type !== 'encoded') throw new Error('Unexpected audio worker response');
+  return { base64: response.base64, mimeType: response.mimeType };
+};
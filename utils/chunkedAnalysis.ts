@@ -0,0 +1,168 @@
+import { AudioChunk, AnalysisSegment, ChunkSegment, SegmentRepair, VadRegion, AudioEncoding, AnalysisRange } from "../types";
+import { sliceAudioBuffer, encodeAudioBuffer } from "./audioUtils";
+import { AudioJobOptions } from "./audioWorkerClient";
+import { validateSegments } from "./segmentValidation";
+
+// CONFIGURATION
+export const DEFAULT_CHUNK_DURATION = 300; // 5 minutes per request stays well within model limits
+export const DEFAULT_CHUNK_OVERLAP = 10; // Long enough to hold a full sentence across the boundary
+export const MIN_CHUNK_DURATION = 30;
+
+// Silence shorter than this is sent anyway; trimming it saves little and risks clipping speech
+export const MIN_SKIPPED_SILENCE = 10;
+// Speech kept around a trimmed chunk edge
+const VAD_EDGE_PADDING = 0.5;
+// Dialogue boundaries move to a VAD edge only when one is this close
+const VAD_SNAP_TOLERANCE = 0.75;
+
+// Same-type segments overlapping by more than this share of the shorter one are duplicates
+const DUPLICATE_OVERLAP_RATIO = 0.5;
+
+/**
+ * Splits [rangeStart, duration) into overlapping windows.
+ * Each chunk owns the middle of its overlap with each neighbour, so every instant is owned exactly once.
+ */
+export const planChunks = (duration: number, chunkDuration: number, overlap: number, rangeStart: number = 0): AudioChunk[] => {
+  const size = Math.max(MIN_CHUNK_DURATION, chunkDuration);
+  const safeOverlap = Math.min(Math.max(0, overlap), size / 2 - 1);
+  const step = size - safeOverlap;
+
+  const chunks: AudioChunk[] = [];
+  for (let start = rangeStart; start < duration; start += step) {
+    const end = Math.min(duration, start + size);
+    chunks.push({
+      index: chunks.length,
+      start,
+      end,
+      ownStart: start === rangeStart ? rangeStart : start + safeOverlap / 2,
+      ownEnd: end >= duration ? duration : end - safeOverlap / 2,
+      status: 'pending',
+      segments: [],
+    });
+    if (end >= duration) break;
+  }
+  return chunks;
+};
+
+/**
+ * True when the node starts inside the range; such nodes are replaced by a range-limited run.
+ */
+export const isInRange = (node: { timestamp: number }, range: AnalysisRange | null): boolean =>
+  !range || (node.timestamp >= range.start && node.timestamp < range.end);
+
+/**
+ * Uses voice activity to avoid sending silence: chunks that are silent throughout are skipped,
+ * and long silent lead-ins/tails are trimmed from the window that gets encoded.
+ * Music and effects without speech still count as content and are always sent.
+ */
+export const applyVoiceActivity = (chunks: AudioChunk[], regions: VadRegion[]): AudioChunk[] => {
+  const content = regions.filter(r => !r.isSilent);
+
+  return chunks.map(chunk => {
+    const inside = content.filter(r => r.end > chunk.start && r.start < chunk.end);
+    if (inside.length === 0) {
+      return { ...chunk, status: 'skipped' };
+    }
+
+    const firstContent = Math.max(chunk.start, inside[0].start - VAD_EDGE_PADDING);
+    const lastContent = Math.min(chunk.end, inside[inside.length - 1].end + VAD_EDGE_PADDING);
+
+    return {
+      ...chunk,
+      start: firstContent - chunk.start >= MIN_SKIPPED_SILENCE ? firstContent : chunk.start,
+      end: chunk.end - lastContent >= MIN_SKIPPED_SILENCE ? lastContent : chunk.end,
+    };
+  });
+};
+
+/**
+ * Moves dialogue start/end times onto nearby voice activity edges, correcting AI timestamp drift.
+ */
+export const snapSegmentsToSpeech = <T extends AnalysisSegment>(segments: T[], regions: VadRegion[]): T[] => {
+  const speech = regions.filter(r => r.isSpeech);
+  if (speech.length === 0) return segments;
+
+  const nearest = (time: number, edges: number[]): number | null => {
+    let best: number | null = null;
+    for (const edge of edges) {
+      if (Math.abs(edge - time) <= VAD_SNAP_TOLERANCE && (best === null || Math.abs(edge - time) < Math.abs(best - time))) {
+        best = edge;
+      }
+    }
+    return best;
+  };
+
+  const starts = speech.map(r => r.start);
+  const ends = speech.map(r => r.end);
+
+  return segments.map(seg => {
+    if (seg.type !== 'dialogue') return seg;
+
+    const startTime = nearest(seg.startTime, starts) ?? seg.startTime;
+    const endTime = nearest(seg.endTime, ends) ?? seg.endTime;
+    // Snapping both edges to the same pause could invert a very short line
+    return endTime > startTime ? { ...seg, startTime, endTime } : seg;
+  });
+};
+
+/**
+ * Analyzes one chunk and returns its validated segments shifted to absolute time, with the repair log.
+ * Each segment gets the id of the node it will become.
+ */
+export const analyzeChunk = async (
+  buffer: AudioBuffer,
+  chunk: AudioChunk,
+  analyze: (base64Audio: string, mimeType: string) => Promise<{ segments: AnalysisSegment[] }>,
+  encoding: AudioEncoding = 'wav',
+  options?: AudioJobOptions
+): Promise<{ segments: ChunkSegment[]; repairs: SegmentRepair[] }> => {
+  const audio = await encodeAudioBuffer(sliceAudioBuffer(buffer, chunk.start, chunk.end), encoding, options);
+  const result = await analyze(audio.base64, audio.mimeType);
+  const { segments, repairs } = validateSegments(result, chunk.start, chunk.end);
+  return { segments: segments.map(seg => ({ ...seg, nodeId: crypto.randomUUID() })), repairs };
+};
+
+/**
+ * Merges the segments of all finished chunks, dropping the copies produced in overlap regions.
+ */
+export const mergeChunkSegments = (chunks: AudioChunk[]): ChunkSegment[] => {
+  // 1. Keep each segment only in the chunk that owns its midpoint
+  const owned = chunks
+    .filter(chunk => chunk.status === 'done')
+    .flatMap(chunk => chunk.segments
+      .filter(seg => {
+        const mid = (seg.startTime + seg.endTime) / 2;
+        return mid >= chunk.ownStart && mid < chunk.ownEnd;
+      })
+      .map(seg => ({ seg, chunkIndex: chunk.index })))
+    .sort((a, b) => a.seg.startTime - b.seg.startTime);
+
+  // 2. Boundary segments can still be reported twice with slightly different times by neighbouring chunks.
+  // Overlaps within one chunk are real (crosstalk, layered cues) and are kept.
+  const merged: typeof owned = [];
+  owned.forEach(entry => {
+    const duplicate = merged.find(prev =>
+      prev.chunkIndex !== entry.chunkIndex &&
+      prev.seg.type === entry.seg.type &&
+      overlapRatio(prev.seg, entry.seg) > DUPLICATE_OVERLAP_RATIO
+    );
+    if (!duplicate) {
+      merged.push(entry);
+      return;
+    }
+    // Prefer the longer reading, which is less likely to be cut off by a chunk edge.
+    // It takes over the node of the reading it replaces, so that node is updated rather than recreated.
+    if (entry.seg.endTime - entry.seg.startTime > duplicate.seg.endTime - duplicate.seg.startTime) {
+      merged[merged.indexOf(duplicate)] = { ...entry, seg: { ...entry.seg, nodeId: duplicate.seg.nodeId } };
+    }
+  });
+
+  return merged.map(entry => entry.seg);
+};
+
+function overlapRatio(a: AnalysisSegment, b: AnalysisSegment): number {
+  const overlap = Math.min(a.endTime, b.endTime) - Math.max(a.startTime, b.startTime);
+  const shorter = Math.min(a.endTime - a.startTime, b.endTime - b.startTime);
+  if (overlap <= 0 || shorter <= 0) return 0;
+  return overlap / shorter;
+}
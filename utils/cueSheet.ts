@@ -0,0 +1,216 @@
+import { SubtitleNode, MusicAnalysis } from "../types";
+import { FrameRate, FRAME_RATES, secondsToFrames, formatFrameTimecode, pad } from "./timecode";
+import { escapeHtml } from "./html";
+
+export type MusicUsage =
+  | 'Visual Vocal'
+  | 'Visual Instrumental'
+  | 'Background Vocal'
+  | 'Background Instrumental';
+
+export interface CueSheetOptions {
+  frameRate: FrameRate;
+  mergeAdjacent: boolean;
+  maxMergeGap: number; // Seconds between segments that still count as one cue
+}
+
+export const DEFAULT_CUE_SHEET_OPTIONS: CueSheetOptions = {
+  frameRate: FRAME_RATES[1],
+  mergeAdjacent: true,
+  maxMergeGap: 1,
+};
+
+export interface MusicCue {
+  cueNumber: number;
+  start: number;
+  end: number;
+  title: string;
+  composer: string;
+  publisher: string;
+  usage: MusicUsage;
+  source: MusicAnalysis['source'] | 'Unknown';
+  description: string;
+  nodeIds: string[]; // Timeline nodes merged into this cue
+}
+
+/**
+ * Maps the AI source label (plus the supervisor's vocal flag) to a cue sheet usage.
+ * Diegetic music is heard on screen, so it is reported as Visual; score and ambience as Background.
+ */
+export const getMusicUsage = (node: SubtitleNode): MusicUsage => {
+  const visual = node.musicAnalysis?.source === 'Diegetic';
+  const vocal = node.cueInfo?.vocal === true;
+  return `${visual ? 'Visual' : 'Background'} ${vocal ? 'Vocal' : 'Instrumental'}`;
+};
+
+/**
+ * Builds numbered cues from the music nodes, optionally merging adjacent segments of the same piece.
+ * Segments merge only when they share a usage and do not carry different titles.
+ */
+export const buildMusicCues = (
+  subtitles: SubtitleNode[],
+  options: CueSheetOptions = DEFAULT_CUE_SHEET_OPTIONS
+): MusicCue[] => {
+  const music = subtitles
+    .filter(s => s.type === 'music')
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const cues: MusicCue[] = [];
+
+  music.forEach(node => {
+    const start = node.timestamp;
+    const end = node.endTime !== undefined && node.endTime > start ? node.endTime : start;
+    const usage = getMusicUsage(node);
+    const title = node.cueInfo?.title?.trim() || '';
+    const prev = cues[cues.length - 1];
+
+    const canMerge = options.mergeAdjacent && prev &&
+      start - prev.end <= options.maxMergeGap &&
+      prev.usage === usage &&
+      (!prev.title || !title || prev.title === title);
+
+    if (canMerge) {
+      prev.end = Math.max(prev.end, end);
+      prev.title = prev.title || title;
+      prev.composer = prev.composer || node.cueInfo?.composer?.trim() || '';
+      prev.publisher = prev.publisher || node.cueInfo?.publisher?.trim() || '';
+      prev.nodeIds.push(node.id);
+      return;
+    }
+
+    cues.push({
+      cueNumber: cues.length + 1,
+      start,
+      end,
+      title,
+      composer: node.cueInfo?.composer?.trim() || '',
+      publisher: node.cueInfo?.publisher?.trim() || '',
+      usage,
+      source: node.musicAnalysis?.source || 'Unknown',
+      description: node.text,
+      nodeIds: [node.id],
+    });
+  });
+
+  return cues;
+};
+
+// Cue sheets report durations as MM:SS, rounded to the second
+const formatCueDuration = (seconds: number): string => {
+  const total = Math.round(Math.max(0, seconds));
+  return `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+};
+
+interface CueRow {
+  cue: string;
+  title: string;
+  composer: string;
+  publisher: string;
+  usage: string;
+  timecodeIn: string;
+  timecodeOut: string;
+  duration: string;
+  notes: string;
+}
+
+const toRows = (cues: MusicCue[], options: CueSheetOptions): CueRow[] => {
+  const tc = (seconds: number) => formatFrameTimecode(secondsToFrames(seconds, options.frameRate), options.frameRate);
+
+  return cues.map(cue => ({
+    cue: `${cue.cueNumber}`,
+    title: cue.title || 'Untitled',
+    composer: cue.composer,
+    publisher: cue.publisher,
+    usage: cue.usage,
+    timecodeIn: tc(cue.start),
+    timecodeOut: tc(cue.end),
+    duration: formatCueDuration(cue.end - cue.start),
+    notes: cue.description,
+  }));
+};
+
+const COLUMNS: { key: keyof CueRow; label: string }[] = [
+  { key: 'cue', label: 'Cue #' },
+  { key: 'title', label: 'Title' },
+  { key: 'composer', label: 'Composer' },
+  { key: 'publisher', label: 'Publisher' },
+  { key: 'usage', label: 'Usage' },
+  { key: 'timecodeIn', label: 'TC In' },
+  { key: 'timecodeOut', label: 'TC Out' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'notes', label: 'Notes' },
+];
+
+/**
+ * Serializes the cue sheet as RFC 4180 CSV.
+ */
+export const exportCueSheetCsv = (
+  subtitles: SubtitleNode[],
+  options: CueSheetOptions = DEFAULT_CUE_SHEET_OPTIONS
+): string => {
+  const rows = toRows(buildMusicCues(subtitles, options), options);
+  const escapeCsv = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  return [
+    COLUMNS.map(c => c.label).join(','),
+    ...rows.map(row => COLUMNS.map(c => escapeCsv(row[c.key])).join(',')),
+  ].join('\r\n') + '\r\n';
+};
+
+/**
+ * Renders the cue sheet as a self-contained, print-ready HTML page.
+ */
+export const exportCueSheetHtml = (
+  subtitles: SubtitleNode[],
+  productionTitle: string,
+  options: CueSheetOptions = DEFAULT_CUE_SHEET_OPTIONS
+): string => {
+  const cues = buildMusicCues(subtitles, options);
+  const rows = toRows(cues, options);
+  const totalSeconds = cues.reduce((sum, cue) => sum + (cue.end - cue.start), 0);
+
+  const header = COLUMNS.map(c => `<th>${escapeHtml(c.label)}</th>`).join('');
+  const body = rows.length > 0
+    ? rows.map(row => `<tr>${COLUMNS.map(c => `<td>${escapeHtml(row[c.key])}</td>`).join('')}</tr>`).join('\n')
+    : `<tr><td colspan="${COLUMNS.length}" class="empty">No music cues</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Music Cue Sheet - ${escapeHtml(productionTitle)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #111; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { font-size: 12px; color: #555; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; font-size: 11px; }
+  th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #eee; }
+  td:nth-child(1), td:nth-child(6), td:nth-child(7), td:nth-child(8) { font-family: Menlo, Consolas, monospace; white-space: nowrap; }
+  .empty { text-align: center; color: #777; }
+  @media print {
+    body { margin: 0; }
+    @page { size: landscape; margin: 12mm; }
+    tr { page-break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<h1>Music Cue Sheet</h1>
+<div class="meta">
+  Production: ${escapeHtml(productionTitle)} &middot;
+  Cues: ${cues.length} &middot;
+  Total music: ${formatCueDuration(totalSeconds)} &middot;
+  Timecode: ${escapeHtml(options.frameRate.label)} fps &middot;
+  Generated ${escapeHtml(new Date().toLocaleDateString())}
+</div>
+<table>
+<thead><tr>${header}</tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,29 @@
+/**
+ * Triggers a browser download for a text payload.
+ */
+export const downloadTextFile = (content: string, fileName: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+};
+
+/**
+ * Triggers a browser download for a binary payload (e.g. a rendered PNG).
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Strips the extension from the loaded video name, falling back to the app name.
+ */
+export const getBaseName = (fileName: string | null): string => {
+  return fileName ? fileName.split('.')[0] : 'scene_sync';
+};
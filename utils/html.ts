@@ -0,0 +1,10 @@
+/**
+ * Escapes text for HTML element content and double-quoted attribute values
+ * (used by the printable cue sheet and storyboard exports).
+ */
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
@@ -0,0 +1,270 @@
+import { SubtitleNode, MusicAnalysis, LoudnessMeasurement, ProgramLoudness } from "../types";
+import { AudioJobOptions, measureChannelInWorker } from "./audioWorkerClient";
+
+/**
+ * ITU-R BS.1770-4 / EBU R128 loudness measurement on a decoded AudioBuffer.
+ * Measure on the native-rate buffer: K-weighting and true-peak are not meaningful at 16kHz.
+ * The per-sample work runs in the audio worker, one channel at a time; afterwards only 100ms
+ * sub-block figures are kept, so range queries are cheap and the samples can be released.
+ */
+
+// CONFIGURATION
+const SUB_BLOCK_SECONDS = 0.1; // Momentary/short-term windows are built from 100ms sub-blocks
+const MOMENTARY_SUB_BLOCKS = 4; // 400ms
+const SHORT_TERM_SUB_BLOCKS = 30; // 3s
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10; // Integrated loudness
+const LRA_RELATIVE_GATE_LU = -20; // Loudness range (EBU Tech 3342)
+
+// Measured loudness relative to the programme that maps to each AI dynamics label
+const DYNAMICS_LOW_BELOW_LU = -6;
+const DYNAMICS_HIGH_ABOVE_LU = 3;
+
+export interface DeliverySpec {
+  name: string;
+  targetLufs: number;
+  toleranceLu: number;
+  maxTruePeakDbtp: number;
+}
+
+export const DELIVERY_SPECS: DeliverySpec[] = [
+  { name: 'EBU R128 (Broadcast)', targetLufs: -23, toleranceLu: 1, maxTruePeakDbtp: -1 },
+  { name: 'ATSC A/85 (US Broadcast)', targetLufs: -24, toleranceLu: 2, maxTruePeakDbtp: -2 },
+  { name: 'Streaming (-16)', targetLufs: -16, toleranceLu: 1, maxTruePeakDbtp: -1 },
+  { name: 'Streaming (-14)', targetLufs: -14, toleranceLu: 1, maxTruePeakDbtp: -1 },
+];
+
+/**
+ * Sub-block analysis state; build once per buffer and query any time range.
+ */
+export interface LoudnessAnalysis {
+  duration: number;
+  subBlockPower: Float64Array; // Channel-weighted K-filtered mean square per 100ms sub-block
+  subBlockPeak: Float32Array; // Linear true peak over all channels per 100ms sub-block
+}
+
+/**
+ * Measures every channel in the audio worker and combines the sub-block figures.
+ * Reports progress (0-1) over all channels; aborting stops the running channel.
+ */
+export const prepareLoudnessAnalysis = async (buffer: AudioBuffer, options: AudioJobOptions = {}): Promise<LoudnessAnalysis> => {
+  const subBlockSize = Math.round(buffer.sampleRate * SUB_BLOCK_SECONDS);
+  const subBlockCount = Math.ceil(buffer.length / subBlockSize);
+  const subBlockPower = new Float64Array(subBlockCount);
+  const subBlockPeak = new Float32Array(subBlockCount);
+  const channelCount = buffer.numberOfChannels;
+
+  for (let ch = 0; ch < channelCount; ch++) {
+    options.signal?.throwIfAborted();
+    // getChannelData is a view of the buffer's storage and cannot be transferred; copy one channel at a time
+    const blocks = await measureChannelInWorker(buffer.getChannelData(ch).slice(), buffer.sampleRate, subBlockSize, {
+      signal: options.signal,
+      onProgress: fraction => options.onProgress?.((ch + fraction) / channelCount),
+    });
+
+    const weight = channelWeight(ch, channelCount);
+    for (let b = 0; b < subBlockCount; b++) {
+      subBlockPower[b] += weight * blocks.power[b];
+      if (blocks.peak[b] > subBlockPeak[b]) subBlockPeak[b] = blocks.peak[b];
+    }
+  }
+
+  return { duration: buffer.duration, subBlockPower, subBlockPeak };
+};
+
+/**
+ * Measures loudness over [start, end). Returns null values for silence.
+ */
+export const measureRange = (analysis: LoudnessAnalysis, start: number, end: number): LoudnessMeasurement => {
+  const first = Math.max(0, Math.floor(start / SUB_BLOCK_SECONDS));
+  const last = Math.max(first + 1, Math.min(analysis.subBlockPower.length, Math.ceil(end / SUB_BLOCK_SECONDS)));
+  const power = analysis.subBlockPower.subarray(first, last);
+
+  const momentary = windowedPowers(power, MOMENTARY_SUB_BLOCKS);
+  const shortTerm = windowedPowers(power, SHORT_TERM_SUB_BLOCKS);
+
+  return {
+    integratedLufs: roundOrNull(gatedLoudness(momentary, RELATIVE_GATE_LU)),
+    maxShortTermLufs: roundOrNull(powerToLufs(maxOf(shortTerm))),
+    loudnessRangeLu: roundOrNull(loudnessRange(shortTerm)),
+    truePeakDbtp: roundOrNull(peakToDbtp(maxOf(analysis.subBlockPeak.subarray(first, last)))),
+  };
+};
+
+/**
+ * Whole-programme measurement plus momentary maximum for the delivery report.
+ */
+export const measureProgram = (analysis: LoudnessAnalysis): ProgramLoudness => {
+  const momentary = windowedPowers(analysis.subBlockPower, MOMENTARY_SUB_BLOCKS);
+  return {
+    ...measureRange(analysis, 0, analysis.duration),
+    maxMomentaryLufs: roundOrNull(powerToLufs(maxOf(momentary))),
+    duration: analysis.duration,
+    measuredAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Maps a measured segment to the AI's Low/Medium/High dynamics scale, relative to the programme.
+ */
+export const deriveDynamics = (
+  segment: LoudnessMeasurement,
+  program: ProgramLoudness
+): MusicAnalysis['dynamics'] | null => {
+  if (segment.integratedLufs === null || program.integratedLufs === null) return null;
+  const relative = segment.integratedLufs - program.integratedLufs;
+  if (relative < DYNAMICS_LOW_BELOW_LU) return 'Low';
+  if (relative > DYNAMICS_HIGH_ABOVE_LU) return 'High';
+  return 'Medium';
+};
+
+/**
+ * Measures every dialogue/music node and flags music whose AI dynamics label disagrees.
+ */
+export const measureSegments = (
+  subtitles: SubtitleNode[],
+  analysis: LoudnessAnalysis,
+  program: ProgramLoudness
+): SubtitleNode[] => subtitles.map(node => {
+  if (node.type === 'scene' || node.type === 'technical') return node;
+
+  const end = node.endTime !== undefined && node.endTime > node.timestamp ? node.endTime : node.timestamp + 2;
+  const measurement = measureRange(analysis, node.timestamp, end);
+  const derived = deriveDynamics(measurement, program);
+
+  return {
+    ...node,
+    loudness: {
+      ...measurement,
+      derivedDynamics: derived ?? undefined,
+      dynamicsMismatch: !!(derived && node.musicAnalysis && node.musicAnalysis.dynamics !== derived),
+    },
+  };
+});
+
+export const checkDeliverySpec = (program: ProgramLoudness, spec: DeliverySpec) => {
+  const loudnessOk = program.integratedLufs !== null &&
+    Math.abs(program.integratedLufs - spec.targetLufs) <= spec.toleranceLu;
+  const peakOk = program.truePeakDbtp === null || program.truePeakDbtp <= spec.maxTruePeakDbtp;
+  return { loudnessOk, peakOk, pass: loudnessOk && peakOk };
+};
+
+/**
+ * Plain-text delivery report: programme figures, spec compliance and flagged segments.
+ */
+export const formatLoudnessReport = (
+  program: ProgramLoudness,
+  subtitles: SubtitleNode[],
+  sourceName: string,
+  specs: DeliverySpec[] = DELIVERY_SPECS
+): string => {
+  const level = (value: number | null, unit: string) => value === null ? `-inf ${unit}` : `${value.toFixed(1)} ${unit}`;
+  const clock = (seconds: number) => {
+    const min = Math.floor(seconds / 60);
+    const sec = Math.floor(seconds % 60);
+    return `${min}:${sec.toString().padStart(2, '0')}`;
+  };
+
+  const lines = [
+    `LOUDNESS REPORT: ${sourceName}`,
+    `Measured: ${program.measuredAt}`,
+    `Duration: ${clock(program.duration)}`,
+    '',
+    `Integrated loudness: ${level(program.integratedLufs, 'LUFS')}`,
+    `Loudness range:      ${level(program.loudnessRangeLu, 'LU')}`,
+    `True peak:           ${level(program.truePeakDbtp, 'dBTP')}`,
+    `Max short-term:      ${level(program.maxShortTermLufs, 'LUFS')}`,
+    `Max momentary:       ${level(program.maxMomentaryLufs, 'LUFS')}`,
+    '',
+    'DELIVERY SPECS',
+    ...specs.map(spec => {
+      const result = checkDeliverySpec(program, spec);
+      return `${result.pass ? 'PASS' : 'FAIL'}  ${spec.name}: ${spec.targetLufs} LUFS +/-${spec.toleranceLu} LU` +
+        ` (${result.loudnessOk ? 'ok' : 'out of range'}), TP <= ${spec.maxTruePeakDbtp} dBTP (${result.peakOk ? 'ok' : 'over'})`;
+    }),
+  ];
+
+  const flagged = subtitles.filter(s => s.loudness?.dynamicsMismatch);
+  lines.push('', `DYNAMICS MISMATCHES (${flagged.length})`);
+  flagged.forEach(s => {
+    lines.push(`${clock(s.timestamp)}  AI ${s.musicAnalysis?.dynamics}, measured ${s.loudness?.derivedDynamics}` +
+      ` (${level(s.loudness?.integratedLufs ?? null, 'LUFS')})  ${s.text}`);
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+// BS.1770 channel weights: surrounds +1.5dB, LFE excluded (5.1 order L R C LFE Ls Rs)
+function channelWeight(channel: number, count: number): number {
+  if (count === 6) {
+    if (channel === 3) return 0;
+    if (channel >= 4) return 1.41;
+  }
+  return 1;
+}
+
+// Sliding mean of `size` sub-blocks, one value per sub-block step
+function windowedPowers(subBlocks: Float64Array, size: number): number[] {
+  if (subBlocks.length < size) {
+    // Shorter than one window: measure what there is
+    const sum = subBlocks.reduce((a, b) => a + b, 0);
+    return subBlocks.length > 0 ? [sum / subBlocks.length] : [];
+  }
+
+  const powers: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < subBlocks.length; i++) {
+    sum += subBlocks[i];
+    if (i >= size) sum -= subBlocks[i - size];
+    if (i >= size - 1) powers.push(sum / size);
+  }
+  return powers;
+}
+
+// Avoids spreading hour-long block arrays into Math.max
+function maxOf(values: ArrayLike<number>): number {
+  let max = 0;
+  for (let i = 0; i < values.length; i++) if (values[i] > max) max = values[i];
+  return max;
+}
+
+function powerToLufs(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+function gatedLoudness(blockPowers: number[], relativeGateLu: number): number {
+  const absGated = blockPowers.filter(p => powerToLufs(p) > ABSOLUTE_GATE_LUFS);
+  if (absGated.length === 0) return -Infinity;
+
+  const ungatedMean = absGated.reduce((a, b) => a + b, 0) / absGated.length;
+  const relativeGate = powerToLufs(ungatedMean) + relativeGateLu;
+  const relGated = absGated.filter(p => powerToLufs(p) > relativeGate);
+  if (relGated.length === 0) return -Infinity;
+
+  return powerToLufs(relGated.reduce((a, b) => a + b, 0) / relGated.length);
+}
+
+function loudnessRange(shortTermPowers: number[]): number {
+  const absGated = shortTermPowers.filter(p => powerToLufs(p) > ABSOLUTE_GATE_LUFS);
+  if (absGated.length === 0) return -Infinity;
+
+  const mean = absGated.reduce((a, b) => a + b, 0) / absGated.length;
+  const gate = powerToLufs(mean) + LRA_RELATIVE_GATE_LU;
+  const values = absGated.map(powerToLufs).filter(l => l > gate).sort((a, b) => a - b);
+  if (values.length === 0) return 0;
+
+  const percentile = (p: number) => values[Math.min(values.length - 1, Math.round(p * (values.length - 1)))];
+  return percentile(0.95) - percentile(0.10);
+}
+
+function peakToDbtp(peak: number): number {
+  return peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+}
+
+function roundOrNull(value: number): number | null {
+  return Number.isFinite(value) ? Math.round(value * 10) / 10 : null;
+}
@@ -0,0 +1,257 @@
+import { SubtitleNode, MusicAnalysis } from "../types";
+import { FrameRate, FRAME_RATES, secondsToFrames, timecodeToFrames, formatFrameTimecode, supportsDropFrame } from "./timecode";
+
+export interface NleExportOptions {
+  frameRate: FrameRate;
+  dropFrame: boolean; // Only honoured for 29.97 / 59.94
+  includeDialogueMarkers: boolean;
+  includeMusicMarkers: boolean;
+  recordStart: number; // Sequence start timecode in nominal seconds (3600 = 01:00:00:00, the broadcast convention)
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_NLE_OPTIONS: NleExportOptions = {
+  frameRate: FRAME_RATES[1],
+  dropFrame: false,
+  includeDialogueMarkers: true,
+  includeMusicMarkers: true,
+  recordStart: 3600,
+  width: 1920,
+  height: 1080,
+};
+
+interface Shot {
+  startFrame: number;
+  endFrame: number;
+  name: string;
+}
+
+interface Marker {
+  frame: number;
+  durationFrames: number;
+  kind: 'dialogue' | 'music';
+  name: string;
+  note: string;
+}
+
+/**
+ * Describes the music metrics for marker notes.
+ */
+export const describeMusic = (analysis: MusicAnalysis): string => [
+  `Source: ${analysis.source}`,
+  `Tempo: ${analysis.tempo ?? 'n/a'}`,
+  `Dynamics: ${analysis.dynamics}`,
+  `Progression: ${analysis.progression}`,
+  `Mode: ${analysis.harmonicMode}`,
+  `Sentiment: ${analysis.sentimentScore}`,
+].join(' | ');
+
+/**
+ * Turns scene nodes into a gapless cut list covering the whole video.
+ * Cut points are the scene start times; a video without scenes becomes one shot.
+ */
+const buildShots = (subtitles: SubtitleNode[], duration: number, rate: FrameRate): Shot[] => {
+  const scenes = subtitles
+    .filter(s => s.type === 'scene')
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const totalFrames = secondsToFrames(duration, rate);
+  const shots: Shot[] = [];
+
+  scenes.forEach((scene, index) => {
+    const startFrame = index === 0 ? 0 : secondsToFrames(scene.timestamp, rate);
+    const prev = shots[shots.length - 1];
+    // Scenes closer than one frame collapse into the previous shot
+    if (prev && startFrame <= prev.startFrame) return;
+    if (prev) prev.endFrame = startFrame;
+    shots.push({ startFrame, endFrame: totalFrames, name: scene.text || `Scene ${index + 1}` });
+  });
+
+  if (shots.length === 0) {
+    shots.push({ startFrame: 0, endFrame: totalFrames, name: 'Full Video' });
+  }
+
+  return shots.filter(shot => shot.endFrame > shot.startFrame);
+};
+
+const buildMarkers = (subtitles: SubtitleNode[], options: NleExportOptions): Marker[] => {
+  const rate = options.frameRate;
+
+  return subtitles
+    .filter(s =>
+      (s.type === 'dialogue' && options.includeDialogueMarkers) ||
+      (s.type === 'music' && options.includeMusicMarkers)
+    )
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(s => {
+      const frame = secondsToFrames(s.timestamp, rate);
+      const endFrame = s.endTime !== undefined ? secondsToFrames(s.endTime, rate) : frame + 1;
+
+      if (s.type === 'music') {
+        return {
+          frame,
+          durationFrames: Math.max(1, endFrame - frame),
+          kind: 'music' as const,
+          name: `Music: ${s.text}`,
+          note: s.musicAnalysis ? describeMusic(s.musicAnalysis) : s.text,
+        };
+      }
+
+      const speaker = s.speaker ? `${s.speaker}: ` : '';
+      const emotion = s.emotion ? ` [${s.emotion}]` : '';
+      return {
+        frame,
+        durationFrames: Math.max(1, endFrame - frame),
+        kind: 'dialogue' as const,
+        name: `${speaker}${s.text}`,
+        note: `${speaker}${s.text}${emotion}${s.translation ? ` / ${s.translation}` : ''}`,
+      };
+    });
+};
+
+const resolveDuration = (subtitles: SubtitleNode[], duration: number): number => {
+  if (duration > 0) return duration;
+  return subtitles.reduce((max, s) => Math.max(max, s.endTime ?? s.timestamp), 0);
+};
+
+// ---------------------------------------------------------------------------
+// CMX3600 EDL
+// ---------------------------------------------------------------------------
+
+// EDL reel names are limited to 8 characters
+const EDL_REEL = 'AX';
+
+/**
+ * Serializes scene cuts as a CMX3600 EDL, with dialogue/music as locator comments.
+ */
+export const exportToEdl = (
+  subtitles: SubtitleNode[],
+  duration: number,
+  sourceName: string,
+  title: string,
+  options: NleExportOptions = DEFAULT_NLE_OPTIONS
+): string => {
+  const rate = options.frameRate;
+  const dropFrame = options.dropFrame && supportsDropFrame(rate);
+  const tc = (frames: number) => formatFrameTimecode(frames, rate, dropFrame);
+  const recordOffset = timecodeToFrames(options.recordStart, rate, dropFrame);
+
+  const shots = buildShots(subtitles, resolveDuration(subtitles, duration), rate);
+  const markers = buildMarkers(subtitles, options);
+
+  const lines: string[] = [
+    `TITLE: ${sanitizeEdl(title).slice(0, 70)}`,
+    `FCM: ${dropFrame ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+    '',
+  ];
+
+  shots.forEach((shot, index) => {
+    const eventNum = pad3(index + 1);
+    lines.push(
+      `${eventNum}  ${EDL_REEL.padEnd(8)} V     C        ` +
+      `${tc(shot.startFrame)} ${tc(shot.endFrame)} ` +
+      `${tc(shot.startFrame + recordOffset)} ${tc(shot.endFrame + recordOffset)}`
+    );
+    lines.push(`* FROM CLIP NAME: ${sanitizeEdl(sourceName)}`);
+    lines.push(`* COMMENT: ${sanitizeEdl(shot.name)}`);
+
+    markers
+      .filter(m => m.frame >= shot.startFrame && m.frame < shot.endFrame)
+      .forEach(m => {
+        const colour = m.kind === 'music' ? 'BLUE' : 'YELLOW';
+        lines.push(`* LOC: ${tc(m.frame + recordOffset)} ${colour.padEnd(7)} ${sanitizeEdl(m.note)}`);
+      });
+
+    lines.push('');
+  });
+
+  return lines.join('\n');
+};
+
+// EDL is line-based ASCII; keep each comment on one line
+const sanitizeEdl = (text: string) => text.replace(/[\r\n]+/g, ' ').trim();
+
+const pad3 = (value: number) => value.toString().padStart(3, '0');
+
+// ---------------------------------------------------------------------------
+// FCPXML
+// ---------------------------------------------------------------------------
+
+/**
+ * Serializes scene cuts as an FCPXML 1.9 sequence of clips, with dialogue/music markers.
+ */
+export const exportToFcpxml = (
+  subtitles: SubtitleNode[],
+  duration: number,
+  sourceName: string,
+  title: string,
+  options: NleExportOptions = DEFAULT_NLE_OPTIONS
+): string => {
+  const rate = options.frameRate;
+  const dropFrame = options.dropFrame && supportsDropFrame(rate);
+  const shots = buildShots(subtitles, resolveDuration(subtitles, duration), rate);
+  const markers = buildMarkers(subtitles, options);
+  const totalFrames = shots.length > 0 ? shots[shots.length - 1].endFrame : 0;
+
+  // Rational time: frames * frameDuration, e.g. "1001/24000s" per frame at 23.976
+  const frameNum = rate.ntsc ? 1001 : 1;
+  const frameDen = rate.ntsc ? rate.timebase * 1000 : rate.timebase;
+  const time = (frames: number) => frames === 0 ? '0s' : `${frames * frameNum}/${frameDen}s`;
+  const recordOffset = timecodeToFrames(options.recordStart, rate, dropFrame);
+
+  const clips = shots.map(shot => {
+    const clipMarkers = markers
+      .filter(m => m.frame >= shot.startFrame && m.frame < shot.endFrame)
+      .map(m =>
+        `              <marker start="${time(m.frame)}" duration="${time(m.durationFrames)}" ` +
+        `value="${escapeXml(m.name)}" note="${escapeXml(m.note)}"/>`
+      );
+
+    const open =
+      `            <asset-clip ref="r2" name="${escapeXml(shot.name)}" ` +
+      `offset="${time(shot.startFrame + recordOffset)}" start="${time(shot.startFrame)}" ` +
+      `duration="${time(shot.endFrame - shot.startFrame)}" tcFormat="${dropFrame ? 'DF' : 'NDF'}"`;
+
+    return clipMarkers.length > 0
+      ? [`${open}>`, ...clipMarkers, '            </asset-clip>'].join('\n')
+      : `${open}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    `    <format id="r1" name="FFVideoFormat${options.height}p${rate.label.replace('.', '')}" ` +
+      `frameDuration="${time(1)}" width="${options.width}" height="${options.height}"/>`,
+    `    <asset id="r2" name="${escapeXml(sourceName)}" start="0s" duration="${time(totalFrames)}" ` +
+      `hasVideo="1" hasAudio="1" format="r1">`,
+    // Relative path; the editor relinks to the original media on import
+    `      <media-rep kind="original-media" src="${escapeXml(encodeURI(sourceName))}"/>`,
+    '    </asset>',
+    '  </resources>',
+    '  <library>',
+    '    <event name="SceneSync AI">',
+    `      <project name="${escapeXml(title)}">`,
+    `        <sequence format="r1" duration="${time(totalFrames)}" tcStart="${time(recordOffset)}" ` +
+      `tcFormat="${dropFrame ? 'DF' : 'NDF'}">`,
+    '          <spine>',
+    ...clips,
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    '',
+  ].join('\n');
+};
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
@@ -0,0 +1,515 @@
+import { SubtitleNode, MusicAnalysis, ProjectFile, ProjectSource, AnalysisSettings, SceneBoundary, SceneTransition, TechnicalKind } from "../types";
+import { DEFAULT_PROVIDER_ID, PROVIDER_IDS } from "./providerIds";
+import { DEFAULT_SCENE_OPTIONS } from "./sceneDetection";
+import { DEFAULT_CHUNK_DURATION, DEFAULT_CHUNK_OVERLAP, MIN_CHUNK_DURATION } from "./chunkedAnalysis";
+import { DEFAULT_DESCRIBE_CONCURRENCY, DEFAULT_DESCRIBE_FRAME_COUNT, MAX_DESCRIBE_CONCURRENCY, MAX_DESCRIBE_FRAME_COUNT } from "./sceneDescriptions";
+
+export const PROJECT_FORMAT = 'scenesync-project';
+// Bump whenever nodes or settings gain fields or values, and note it here. Later versions only add,
+// so every older envelope stays readable.
+//   1: bare SubtitleNode[], migrated on import
+//   2: envelope with source and settings
+//   3: node cueInfo (music cue sheet)
+//   4: settings chunkDuration, chunkOverlap
+//   5: settings useVad
+//   6: node loudness
+//   7: node tempoEstimate
+//   8: settings audioEncoding
+//   9: node boundary, settings useAudioBoundaries
+//   10: settings sceneThresholdMode, sceneAdaptiveSensitivity, sceneSampleFps, sceneLuminanceWeight, sceneMinLength
+//   11: node transition
+//   12: node startFrame
+//   13: node shotGroup
+//   14: node type 'technical' with technicalKind
+//   15: settings describeConcurrency, describeFrameCount
+//   16: settings provider
+//   17: musicAnalysis.tempo optional
+export const PROJECT_FORMAT_VERSION = 17;
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  ...DEFAULT_SCENE_OPTIONS,
+  useAudioBoundaries: true,
+  targetLanguage: null,
+  chunkDuration: DEFAULT_CHUNK_DURATION,
+  chunkOverlap: DEFAULT_CHUNK_OVERLAP,
+  useVad: true,
+  audioEncoding: 'wav',
+  describeConcurrency: DEFAULT_DESCRIBE_CONCURRENCY,
+  describeFrameCount: DEFAULT_DESCRIBE_FRAME_COUNT,
+  provider: DEFAULT_PROVIDER_ID,
+};
+
+// Bytes hashed from each end of the file; enough to tell videos apart without reading gigabytes
+const FINGERPRINT_SAMPLE_BYTES = 1024 * 1024;
+
+// Records keyed by the unions in types.ts, so adding a member without updating these fails to compile
+const NODE_TYPES: Record<SubtitleNode['type'], true> = { dialogue: true, music: true, scene: true, technical: true };
+const TECHNICAL_KINDS: Record<TechnicalKind, true> = { black: true, slate: true, credits: true };
+const MUSIC_ENUMS: { [K in Exclude<keyof MusicAnalysis, 'sentimentScore'>]: Record<MusicAnalysis[K], true> } = {
+  source: { 'Diegetic': true, 'Non-Diegetic': true, 'Silence/Ambient': true },
+  tempo: { 'Slow': true, 'Medium': true, 'Fast': true },
+  dynamics: { 'Low': true, 'Medium': true, 'High': true },
+  progression: { 'Crescendo': true, 'Diminuendo': true, 'Sustained': true },
+  harmonicMode: { 'Major': true, 'Minor': true },
+};
+const BOUNDARY_TRIGGERS: Record<SceneBoundary['trigger'], true> = { visual: true, audio: true, both: true };
+const AUDIO_CUES: Record<NonNullable<SceneBoundary['audioCue']>, true> = { silence: true, spectral: true };
+const TRANSITION_KINDS: Record<SceneTransition['kind'], true> = { 'fade-in': true, 'fade-out': true, dissolve: true, wipe: true };
+const THRESHOLD_MODES: Record<AnalysisSettings['sceneThresholdMode'], true> = { fixed: true, adaptive: true };
+const AUDIO_ENCODINGS: Record<AnalysisSettings['audioEncoding'], true> = { wav: true, flac: true };
+const LANGUAGES: Record<NonNullable<AnalysisSettings['targetLanguage']>, true> = { Spanish: true, English: true };
+
+export interface ImportIssue {
+  location: string; // e.g. "nodes[3].musicAnalysis.tempo" or "Line 12"
+  message: string;
+}
+
+export interface ProjectImportResult {
+  project: ProjectFile | null; // null when nothing could be recovered
+  errors: ImportIssue[]; // Invalid nodes are listed here and dropped from project.nodes
+  warnings: ImportIssue[];
+  migratedFrom: number | null;
+}
+
+/**
+ * Hashes the file size plus its first and last megabyte.
+ * Used to warn when a project is loaded against a different video.
+ */
+export const computeFileFingerprint = async (file: File): Promise<string> => {
+  const head = await file.slice(0, FINGERPRINT_SAMPLE_BYTES).arrayBuffer();
+  const tail = await file.slice(Math.max(0, file.size - FINGERPRINT_SAMPLE_BYTES)).arrayBuffer();
+
+  const sizeBytes = new TextEncoder().encode(`${file.size}:`);
+  const combined = new Uint8Array(sizeBytes.byteLength + head.byteLength + tail.byteLength);
+  combined.set(sizeBytes, 0);
+  combined.set(new Uint8Array(head), sizeBytes.byteLength);
+  combined.set(new Uint8Array(tail), sizeBytes.byteLength + head.byteLength);
+
+  const digest = await crypto.subtle.digest('SHA-256', combined);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Wraps the current session in the versioned project envelope.
+ */
+export const createProjectFile = (
+  nodes: SubtitleNode[],
+  source: ProjectSource,
+  settings: AnalysisSettings
+): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_FORMAT_VERSION,
+  savedAt: new Date().toISOString(),
+  source,
+  settings,
+  nodes,
+});
+
+/**
+ * Parses, migrates and validates a project file.
+ * Never throws; every problem is reported as an ImportIssue.
+ */
+export const parseProjectFile = (content: string): ProjectImportResult => {
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    errors.push({ location: 'file', message: `Not valid JSON: ${(error as Error).message}` });
+    return { project: null, errors, warnings, migratedFrom: null };
+  }
+
+  let migratedFrom: number | null = null;
+
+  // Version 1: bare array of nodes, no metadata
+  if (Array.isArray(data)) {
+    migratedFrom = 1;
+    data = {
+      format: PROJECT_FORMAT,
+      version: PROJECT_FORMAT_VERSION,
+      savedAt: new Date(0).toISOString(),
+      source: { fileName: null, duration: 0, fingerprint: null },
+      settings: DEFAULT_ANALYSIS_SETTINGS,
+      nodes: data,
+    };
+    warnings.push({ location: 'file', message: 'Legacy analysis file (v1) migrated; source video and settings are unknown.' });
+  }
+
+  if (!isObject(data) || data.format !== PROJECT_FORMAT) {
+    errors.push({ location: 'format', message: `Expected "${PROJECT_FORMAT}" project or an array of subtitles` });
+    return { project: null, errors, warnings, migratedFrom };
+  }
+
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    errors.push({ location: 'version', message: 'Missing or invalid format version' });
+    return { project: null, errors, warnings, migratedFrom };
+  }
+  if (data.version > PROJECT_FORMAT_VERSION) {
+    errors.push({
+      location: 'version',
+      message: `File uses format v${data.version}; this app reads up to v${PROJECT_FORMAT_VERSION}`
+    });
+    return { project: null, errors, warnings, migratedFrom };
+  }
+
+  // Older envelopes differ only by fields that did not exist yet, which are all optional
+  if (migratedFrom === null && data.version < PROJECT_FORMAT_VERSION) migratedFrom = data.version;
+
+  if (!Array.isArray(data.nodes)) {
+    errors.push({ location: 'nodes', message: 'Expected an array' });
+    return { project: null, errors, warnings, migratedFrom };
+  }
+
+  const source = validateSource(data.source, warnings);
+  const settings = validateSettings(data.settings, warnings);
+
+  const nodes: SubtitleNode[] = [];
+  const seenIds = new Set<string>();
+  data.nodes.forEach((raw: unknown, index: number) => {
+    const nodeErrors = validateNode(raw, `nodes[${index}]`);
+    if (nodeErrors.length > 0) {
+      errors.push(...nodeErrors);
+      return;
+    }
+    const node = stripNulls(raw as SubtitleNode);
+    if (seenIds.has(node.id)) {
+      warnings.push({ location: `nodes[${index}].id`, message: 'Duplicate id, a new one was assigned' });
+      nodes.push({ ...node, id: crypto.randomUUID() });
+    } else {
+      nodes.push(node);
+    }
+    seenIds.add(node.id);
+  });
+
+  return {
+    project: {
+      format: PROJECT_FORMAT,
+      version: PROJECT_FORMAT_VERSION,
+      savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date(0).toISOString(),
+      source,
+      settings,
+      nodes: nodes.sort((a, b) => a.timestamp - b.timestamp),
+    },
+    errors,
+    warnings,
+    migratedFrom,
+  };
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateSource(raw: unknown, warnings: ImportIssue[]): ProjectSource {
+  const source: ProjectSource = { fileName: null, duration: 0, fingerprint: null };
+  if (!isObject(raw)) {
+    warnings.push({ location: 'source', message: 'Missing source info' });
+    return source;
+  }
+  if (typeof raw.fileName === 'string') source.fileName = raw.fileName;
+  if (typeof raw.duration === 'number' && Number.isFinite(raw.duration) && raw.duration >= 0) {
+    source.duration = raw.duration;
+  } else {
+    warnings.push({ location: 'source.duration', message: 'Expected a non-negative number' });
+  }
+  if (typeof raw.fingerprint === 'string') source.fingerprint = raw.fingerprint;
+  return source;
+}
+
+function validateSettings(raw: unknown, warnings: ImportIssue[]): AnalysisSettings {
+  const settings: AnalysisSettings = { ...DEFAULT_ANALYSIS_SETTINGS };
+  if (!isObject(raw)) {
+    warnings.push({ location: 'settings', message: 'Missing settings, defaults used' });
+    return settings;
+  }
+  if (typeof raw.sceneThreshold === 'number' && raw.sceneThreshold >= 0 && raw.sceneThreshold <= 100) {
+    settings.sceneThreshold = raw.sceneThreshold;
+  } else {
+    warnings.push({ location: 'settings.sceneThreshold', message: 'Expected a number between 0 and 100, default used' });
+  }
+  if (isMember(THRESHOLD_MODES, raw.sceneThresholdMode)) {
+    settings.sceneThresholdMode = raw.sceneThresholdMode;
+  } else if (raw.sceneThresholdMode !== undefined) {
+    warnings.push({ location: 'settings.sceneThresholdMode', message: `Expected one of ${Object.keys(THRESHOLD_MODES).join(', ')}, default used` });
+  }
+  // Files saved before these settings existed fall back to the defaults silently
+  const ranges = [
+    ['sceneAdaptiveSensitivity', 0.5, 6],
+    ['sceneSampleFps', 0.5, 10],
+    ['sceneLuminanceWeight', 0, 1],
+    ['sceneMinLength', 0, 10],
+  ] as const;
+  for (const [field, min, max] of ranges) {
+    const value = raw[field];
+    if (typeof value === 'number' && value >= min && value <= max) {
+      settings[field] = value;
+    } else if (value !== undefined) {
+      warnings.push({ location: `settings.${field}`, message: `Expected a number between ${min} and ${max}, default used` });
+    }
+  }
+  if (typeof raw.useAudioBoundaries === 'boolean') {
+    settings.useAudioBoundaries = raw.useAudioBoundaries;
+  } else if (raw.useAudioBoundaries !== undefined) {
+    warnings.push({ location: 'settings.useAudioBoundaries', message: 'Expected a boolean, default used' });
+  }
+  if (raw.targetLanguage === null) {
+    settings.targetLanguage = null;
+  } else if (isMember(LANGUAGES, raw.targetLanguage)) {
+    settings.targetLanguage = raw.targetLanguage;
+  } else {
+    warnings.push({ location: 'settings.targetLanguage', message: `Expected one of ${Object.keys(LANGUAGES).join(', ')} or null` });
+  }
+  if (typeof raw.chunkDuration === 'number' && raw.chunkDuration >= MIN_CHUNK_DURATION) {
+    settings.chunkDuration = raw.chunkDuration;
+  } else if (raw.chunkDuration !== undefined) {
+    warnings.push({ location: 'settings.chunkDuration', message: `Expected at least ${MIN_CHUNK_DURATION} seconds, default used` });
+  }
+  if (typeof raw.chunkOverlap === 'number' && raw.chunkOverlap >= 0 && raw.chunkOverlap < settings.chunkDuration / 2) {
+    settings.chunkOverlap = raw.chunkOverlap;
+  } else if (raw.chunkOverlap !== undefined) {
+    warnings.push({ location: 'settings.chunkOverlap', message: 'Expected a non-negative number under half the chunk duration, default used' });
+  }
+  if (typeof raw.useVad === 'boolean') {
+    settings.useVad = raw.useVad;
+  } else if (raw.useVad !== undefined) {
+    warnings.push({ location: 'settings.useVad', message: 'Expected a boolean, default used' });
+  }
+  if (isMember(AUDIO_ENCODINGS, raw.audioEncoding)) {
+    settings.audioEncoding = raw.audioEncoding;
+  } else if (raw.audioEncoding !== undefined) {
+    warnings.push({ location: 'settings.audioEncoding', message: `Expected one of ${Object.keys(AUDIO_ENCODINGS).join(', ')}, default used` });
+  }
+  const counts = [
+    ['describeConcurrency', MAX_DESCRIBE_CONCURRENCY],
+    ['describeFrameCount', MAX_DESCRIBE_FRAME_COUNT],
+  ] as const;
+  for (const [field, max] of counts) {
+    const value = raw[field];
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max) {
+      settings[field] = value;
+    } else if (value !== undefined) {
+      warnings.push({ location: `settings.${field}`, message: `Expected a whole number between 1 and ${max}, default used` });
+    }
+  }
+  if (isMember(PROVIDER_IDS, raw.provider)) {
+    settings.provider = raw.provider;
+  } else if (raw.provider !== undefined) {
+    warnings.push({ location: 'settings.provider', message: `Expected one of ${Object.keys(PROVIDER_IDS).join(', ')}, default used` });
+  }
+  return settings;
+}
+
+function validateNode(raw: unknown, path: string): ImportIssue[] {
+  const issues: ImportIssue[] = [];
+  const fail = (field: string, message: string) => issues.push({ location: `${path}.${field}`, message });
+
+  if (!isObject(raw)) {
+    return [{ location: path, message: 'Expected an object' }];
+  }
+
+  if (typeof raw.id !== 'string' || !raw.id) fail('id', 'Expected a non-empty string');
+  if (!isTime(raw.timestamp)) fail('timestamp', 'Expected a non-negative number of seconds');
+  if (raw.endTime != null) {
+    if (!isTime(raw.endTime)) fail('endTime', 'Expected a non-negative number of seconds');
+    else if (isTime(raw.timestamp) && raw.endTime < raw.timestamp) fail('endTime', 'Must not be before timestamp');
+  }
+  if (typeof raw.text !== 'string') fail('text', 'Expected a string');
+  if (typeof raw.isAutoGenerated !== 'boolean') fail('isAutoGenerated', 'Expected a boolean');
+  if (!isMember(NODE_TYPES, raw.type)) {
+    fail('type', `Expected one of ${Object.keys(NODE_TYPES).join(', ')}`);
+  }
+
+  if (raw.type === 'technical' && !isMember(TECHNICAL_KINDS, raw.technicalKind)) {
+    fail('technicalKind', `Expected one of ${Object.keys(TECHNICAL_KINDS).join(', ')}`);
+  }
+
+  (['translation', 'speaker', 'emotion'] as const).forEach(field => {
+    if (raw[field] != null && typeof raw[field] !== 'string') fail(field, 'Expected a string');
+  });
+  if (raw.thumbnail != null && (typeof raw.thumbnail !== 'string' || !raw.thumbnail.startsWith('data:image/'))) {
+    fail('thumbnail', 'Expected an image data URL');
+  }
+
+  if (raw.musicAnalysis != null) {
+    issues.push(...validateMusicAnalysis(raw.musicAnalysis, `${path}.musicAnalysis`));
+  }
+  if (raw.cueInfo != null) {
+    issues.push(...validateCueInfo(raw.cueInfo, `${path}.cueInfo`));
+  }
+  if (raw.loudness != null) {
+    issues.push(...validateLoudness(raw.loudness, `${path}.loudness`));
+  }
+  if (raw.tempoEstimate != null) {
+    issues.push(...validateTempoEstimate(raw.tempoEstimate, `${path}.tempoEstimate`));
+  }
+  if (raw.boundary != null) {
+    issues.push(...validateBoundary(raw.boundary, `${path}.boundary`));
+  }
+  if (raw.transition != null) {
+    issues.push(...validateTransition(raw.transition, `${path}.transition`));
+  }
+  if (raw.startFrame != null) {
+    issues.push(...validateFramePosition(raw.startFrame, `${path}.startFrame`));
+  }
+  if (raw.shotGroup != null) {
+    issues.push(...validateShotGroup(raw.shotGroup, `${path}.shotGroup`));
+  }
+
+  return issues;
+}
+
+function validateMusicAnalysis(raw: unknown, path: string): ImportIssue[] {
+  if (!isObject(raw)) return [{ location: path, message: 'Expected an object' }];
+
+  const issues: ImportIssue[] = [];
+  (Object.keys(MUSIC_ENUMS) as (keyof typeof MUSIC_ENUMS)[]).forEach(field => {
+    const allowed: Record<string, true> = MUSIC_ENUMS[field];
+    if (field === 'tempo' && raw.tempo == null) return; // Derived from the BPM when the AI gave none
+    if (!isMember(allowed, raw[field])) {
+      issues.push({ location: `${path}.${field}`, message: `Expected one of ${Object.keys(allowed).join(', ')}` });
+    }
+  });
+
+  const score = raw.sentimentScore;
+  if (typeof score !== 'number' || !Number.isFinite(score) || score < -1 || score > 1) {
+    issues.push({ location: `${path}.sentimentScore`, message: 'Expected a number between -1.0 and 1.0' });
+  }
+  return issues;
+}
+
+function validateCueInfo(raw: unknown, path: string): ImportIssue[] {
+  if (!isObject(raw)) return [{ location: path, message: 'Expected an object' }];
+
+  const issues: ImportIssue[] = [];
+  (['title', 'composer', 'publisher'] as const).forEach(field => {
+    if (raw[field] != null && typeof raw[field] !== 'string') {
+      issues.push({ location: `${path}.${field}`, message: 'Expected a string' });
+    }
+  });
+  if (raw.vocal != null && typeof raw.vocal !== 'boolean') {
+    issues.push({ location: `${path}.vocal`, message: 'Expected a boolean' });
+  }
+  return issues;
+}
+
+function validateLoudness(raw: unknown, path: string): ImportIssue[] {
+  if (!isObject(raw)) return [{ location: path, message: 'Expected an object' }];
+
+  const issues: ImportIssue[] = [];
+  (['integratedLufs', 'maxShortTermLufs', 'loudnessRangeLu', 'truePeakDbtp'] as const).forEach(field => {
+    // null means the segment was below the measurement gate
+    if (raw[field] !== null && (typeof raw[field] !== 'number' || !Number.isFinite(raw[field]))) {
+      issues.push({ location: `${path}.${field}`, message: 'Expected a number or null' });
+    }
+  });
+  if (raw.derivedDynamics != null && !isMember(MUSIC_ENUMS.dynamics, raw.derivedDynamics)) {
+    issues.push({ location: `${path}.derivedDynamics`, message: `Expected one of ${Object.keys(MUSIC_ENUMS.dynamics).join(', ')}` });
+  }
+  if (raw.dynamicsMismatch != null && typeof raw.dynamicsMismatch !== 'boolean') {
+    issues.push({ location: `${path}.dynamicsMismatch`, message: 'Expected a boolean' });
+  }
+  return issues;
+}
+
+function validateTempoEstimate(raw: unknown, path: string): ImportIssue[] {
+  if (!isObject(raw)) return [{ location: path, message: 'Expected an object' }];
+
+  const issues: ImportIssue[] = [];
+  if (typeof raw.bpm !== 'number' || !Number.isFinite(raw.bpm) || raw.bpm <= 0) {
+    issues.push({ location: `${path}.bpm`, message: 'Expected a positive number' });
+  }
+  if (typeof raw.confidence !== 'number' || raw.confidence < 0 || raw.confidence > 1) {
+    issues.push({ location: `${path}.confidence`, message: 'Expected a number between 0 and 1' });
+  }
+  if (typeof raw.onsetCount !== 'number' || !Number.isInteger(raw.onsetCount) || raw.onsetCount < 0) {
+    issues.push({ location: `${path}.onsetCount`, message: 'Expected a non-negative integer' });
+  }
+  (['derivedTempo', 'aiTempo'] as const).forEach(field => {
+    if ((field === 'derivedTempo' || raw[field] != null) && !isMember(MUSIC_ENUMS.tempo, raw[field])) {
+      issues.push({ location: `${path}.${field}`, message: `Expected one of ${Object.keys(MUSIC_ENUMS.tempo).join(', ')}` });
+    }
+  });
+  return issues;
+}
+
+function validateBoundary(raw: unknown, path: string): ImportIssue[] {
+  if (!isObject(raw)) return [{ location: path, message: 'Expected an object' }];
+
+  const issues: ImportIssue[] = [];
+  if (!isMember(BOUNDARY_TRIGGERS, raw.trigger)) {
+    issues.push({ location: `${path}.trigger`, message: `Expected one of ${Object.keys(BOUNDARY_TRIGGERS).join(', ')}` });
+  }
+  if (typeof raw.confidence !== 'number' || raw.confidence < 0 || raw.confidence > 1) {
+    issues.push({ location: `${path}.confidence`, message: 'Expected a number between 0 and 1' });
+  }
+  (['visualScore', 'audioScore'] as const).forEach(field => {
+    if (typeof raw[field] !== 'number' || raw[field] < 0 || raw[field] > 100) {
+      issues.push({ location: `${path}.${field}`, message: 'Expected a number between 0 and 100' });
+    }
+  });
+  if (raw.audioCue != null && !isMember(AUDIO_CUES, raw.audioCue)) {
+    issues.push({ location: `${path}.audioCue`, message: `Expected one of ${Object.keys(AUDIO_CUES).join(', ')}` });
+  }
+  return issues;
+}
+
+function validateTransition(raw: unknown, path: string): ImportIssue[] {
+  if (!isObject(raw)) return [{ location: path, message: 'Expected an object' }];
+
+  const issues: ImportIssue[] = [];
+  if (!isMember(TRANSITION_KINDS, raw.kind)) {
+    issues.push({ location: `${path}.kind`, message: `Expected one of ${Object.keys(TRANSITION_KINDS).join(', ')}` });
+  }
+  if (!isTime(raw.start)) issues.push({ location: `${path}.start`, message: 'Expected a non-negative number of seconds' });
+  if (!isTime(raw.end)) {
+    issues.push({ location: `${path}.end`, message: 'Expected a non-negative number of seconds' });
+  } else if (isTime(raw.start) && raw.end < raw.start) {
+    issues.push({ location: `${path}.end`, message: 'Must not be before start' });
+  }
+  return issues;
+}
+
+function validateFramePosition(raw: unknown, path: string): ImportIssue[] {
+  if (!isObject(raw)) return [{ location: path, message: 'Expected an object' }];
+
+  const issues: ImportIssue[] = [];
+  if (typeof raw.frame !== 'number' || !Number.isInteger(raw.frame) || raw.frame < 0) {
+    issues.push({ location: `${path}.frame`, message: 'Expected a non-negative integer' });
+  }
+  if (typeof raw.fps !== 'number' || !Number.isFinite(raw.fps) || raw.fps <= 0) {
+    issues.push({ location: `${path}.fps`, message: 'Expected a positive number' });
+  }
+  return issues;
+}
+
+function validateShotGroup(raw: unknown, path: string): ImportIssue[] {
+  if (!isObject(raw)) return [{ location: path, message: 'Expected an object' }];
+
+  const issues: ImportIssue[] = [];
+  if (typeof raw.id !== 'number' || !Number.isInteger(raw.id) || raw.id < 0) {
+    issues.push({ location: `${path}.id`, message: 'Expected a non-negative integer' });
+  }
+  if (typeof raw.label !== 'string' || !raw.label) {
+    issues.push({ location: `${path}.label`, message: 'Expected a non-empty string' });
+  }
+  return issues;
+}
+
+// The AI schema marks optional fields nullable, so older files carry explicit nulls
+function stripNulls(node: SubtitleNode): SubtitleNode {
+  const clean = { ...node } as Record<string, unknown>;
+  Object.keys(clean).forEach(key => {
+    if (clean[key] === null) delete clean[key];
+  });
+  return clean as unknown as SubtitleNode;
+}
+
+function isMember<K extends string>(record: Record<K, true>, value: unknown): value is K {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(record, value);
+}
+
+function isTime(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
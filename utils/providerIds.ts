@@ -0,0 +1,11 @@
+import { AnalysisProviderId } from "../types";
+
+/**
+ * Provider ids without the providers themselves, so settings and project files can name a backend
+ * without loading its SDK. The implementations are registered in services/providers.ts.
+ */
+
+export const PROVIDER_IDS: Record<AnalysisProviderId, true> = { gemini: true, mock: true };
+
+// Without a key the app starts offline rather than failing on the first request
+export const DEFAULT_PROVIDER_ID: AnalysisProviderId = process.env.API_KEY ? 'gemini' : 'mock';
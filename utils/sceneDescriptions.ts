@@ -0,0 +1,133 @@
+import { SubtitleNode, SceneDescriptionTask } from "../types";
+import { SCENE_PLACEHOLDER_PREFIX } from "./sceneDetection";
+
+/**
+ * "Describe all scenes": plans which scenes still carry detector placeholders, samples their frames
+ * and runs the AI requests through a small worker pool.
+ */
+
+// CONFIGURATION
+export const DEFAULT_DESCRIBE_CONCURRENCY = 3;
+export const MAX_DESCRIBE_CONCURRENCY = 6;
+export const DEFAULT_DESCRIBE_FRAME_COUNT = 1;
+export const MAX_DESCRIBE_FRAME_COUNT = 4;
+const FRAME_WIDTH = 512; // Sampled frames are scaled to this width, keeping the aspect ratio
+const FRAME_QUALITY = 0.8;
+
+const PLACEHOLDER_PATTERN = new RegExp(`^${SCENE_PLACEHOLDER_PREFIX} \\d+$`);
+
+/**
+ * True while a scene still has the text detectScenes gave it. Anything else (an AI description,
+ * the user's own wording) counts as described.
+ */
+export const isPlaceholderSceneText = (text: string): boolean => PLACEHOLDER_PATTERN.test(text.trim());
+
+/**
+ * One task per scene in time order; scenes that are already described are marked skipped.
+ */
+export const planSceneDescriptions = (subtitles: SubtitleNode[]): SceneDescriptionTask[] =>
+  subtitles
+    .filter(s => s.type === 'scene')
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(scene => ({
+      sceneId: scene.id,
+      timestamp: scene.timestamp,
+      status: isPlaceholderSceneText(scene.text) ? 'pending' : 'skipped',
+    }));
+
+/**
+ * Where each scene ends: its end time, else the next scene's start, else the end of the video.
+ */
+export const sceneEnd = (scene: SubtitleNode, subtitles: SubtitleNode[], videoDuration: number): number => {
+  if (scene.endTime !== undefined) return scene.endTime;
+  const next = subtitles
+    .filter(s => s.type === 'scene' && s.timestamp > scene.timestamp)
+    .sort((a, b) => a.timestamp - b.timestamp)[0];
+  return next?.timestamp ?? Math.max(scene.timestamp, videoDuration);
+};
+
+export interface FrameSampler {
+  capture: (start: number, end: number, count: number) => Promise<string[]>;
+  dispose: () => void;
+}
+
+/**
+ * Grabs JPEG frames from a video file with one hidden element. Captures are queued, so
+ * concurrent callers never seek the element under each other.
+ */
+export const createFrameSampler = (videoFile: File): FrameSampler => {
+  const video = document.createElement('video');
+  const canvas = document.createElement('canvas');
+  const url = URL.createObjectURL(videoFile);
+  video.src = url;
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  const ready = new Promise<void>((resolve, reject) => {
+    video.onloadedmetadata = () => resolve();
+    video.onerror = () => reject(new Error("Error loading video file"));
+  });
+  let queue: Promise<unknown> = ready;
+
+  const seekTo = (time: number): Promise<void> => new Promise(resolve => {
+    const onSeeked = () => {
+      video.removeEventListener('seeked', onSeeked);
+      resolve();
+    };
+    video.addEventListener('seeked', onSeeked);
+    video.currentTime = time;
+  });
+
+  const grab = async (start: number, end: number, count: number): Promise<string[]> => {
+    await ready;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create canvas context");
+    canvas.width = FRAME_WIDTH;
+    canvas.height = Math.round(FRAME_WIDTH * (video.videoHeight / video.videoWidth || 9 / 16));
+
+    const last = Math.min(end, video.duration);
+    const frames: string[] = [];
+    for (let i = 0; i < count; i++) {
+      // Centre of each of `count` equal slices, so the first and last frames avoid the cuts
+      const time = count === 1 ? start : start + ((i + 0.5) / count) * Math.max(0, last - start);
+      await seekTo(Math.min(time, Math.max(0, video.duration - 0.05)));
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push(canvas.toDataURL('image/jpeg', FRAME_QUALITY));
+    }
+    return frames;
+  };
+
+  return {
+    capture: (start, end, count) => {
+      const result = queue.then(() => grab(start, end, count));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    dispose: () => {
+      URL.revokeObjectURL(url);
+      video.remove();
+      canvas.remove();
+    },
+  };
+};
+
+/**
+ * Runs `worker` over the items with at most `limit` in flight, in order of the items.
+ * Aborting stops new items from starting; running ones are left to the worker to cancel.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      await worker(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+};
@@ -1,29 +1,153 @@
 
-import { SubtitleNode } from "../types";
+import { SubtitleNode, AnalysisRange, SceneBoundary, SceneTransition, AnalysisSettings, TechnicalKind } from "../types";
+import { AudioBoundarySignal, audioBoundaryScore } from "./audioBoundaries";
+import { FRAME_RATES, getActualFps } from "./timecode";
 
 // CONFIGURATION
 const ANALYSIS_WIDTH = 128; // Optimized width as requested
 const ANALYSIS_HEIGHT = 72; // Maintain roughly 16:9 aspect ratio
-const FPS_TO_CHECK = 2; // Check every 0.5 seconds
-const SAMPLING_RATE = 1 / FPS_TO_CHECK; 
-const DEFAULT_THRESHOLD = 15; // Sensitivity threshold (0-100). Lower = more sensitive.
+export const DEFAULT_THRESHOLD = 15; // Sensitivity threshold (0-100). Lower = more sensitive.
+export const DEFAULT_SAMPLE_FPS = 2; // Check every 0.5 seconds
+export const DEFAULT_LUMINANCE_WEIGHT = 0.7;
+export const DEFAULT_MIN_SCENE_LENGTH = 1.0; // Seconds, avoids flicker
+export const DEFAULT_ADAPTIVE_SENSITIVITY = 3;
+export const SCENE_PLACEHOLDER_PREFIX = 'Visual Scene'; // Detected scenes are "Visual Scene N" until described
+const ADAPTIVE_WINDOW_SECONDS = 10; // Rolling window of recent diffs
+const ADAPTIVE_MIN_SAMPLES = 4; // Fall back to the fixed threshold until the window has this many diffs
+// Gradual transitions: a run of moderate steps (each below the cut threshold) that settles
+// with its endpoints as different as a cut
+const GRADUAL_STEP_RATIO = 0.2; // Steps at or above this share of the threshold extend a run
+const GRADUAL_MIN_STEPS = 2;
+const GRADUAL_MAX_SECONDS = 3; // Longer runs are camera motion, not transitions
+const DRIFT_TOLERANCE = 2; // Allowed dip in the distance from the run start (diff units)
+const BLACK_LUMINANCE = 24; // Average luminance (0-255) counted as black for fades
+const FADE_MIN_RANGE = 24; // Luminance change a fade must cover
+const LUMINANCE_TOLERANCE = 2; // Allowed reversal per step on a fade ramp
+const WIPE_STRIPS = 8; // Vertical strips; a wipe changes them one after another
+const WIPE_MIN_CHANGED_STRIPS = 4;
+const WIPE_MIN_STRIP_CHANGE = 10; // Strip luminance change (0-255) that counts as changed
+// Technical segments (deliverables QC)
+const BLACK_FRAME_LUMINANCE = 16; // Stricter than fades: video black sits at 16 in limited range
+const BLACK_FRAME_STD = 6; // Luminance standard deviation of a black frame
+const UNIFORM_STD = 8; // Plain slate or solid colour
+const BARS_MIN_STD = 30; // Colour bars: strong structure across the columns of the top BARS_TOP_SHARE...
+const BARS_MAX_VERTICAL_VARIATION = 0.15; // ...that does not change down each column (SMPTE bars have two steps)
+const BARS_ROW_STEP = 4; // Rows between compared pixels for the vertical variation
+const BARS_PIXEL_CHANGE = 8; // Luminance change that counts as vertical variation
+const BARS_TOP_SHARE = 0.6; // SMPTE bars fill the top two thirds; the blocks below vary
+const CREDITS_DARK_LUMINANCE = 40;
+const CREDITS_BRIGHT_LUMINANCE = 160;
+const CREDITS_MIN_DARK = 0.6; // Share of dark background pixels
+const CREDITS_MIN_TEXT = 0.01; // Share of bright (text) pixels
+const CREDITS_MAX_TEXT = 0.3;
+const CREDITS_LAG_SECONDS = 1; // Scroll is measured against the frame this long ago
+const CREDITS_MAX_SHIFT = 16; // Rows per lag (of ANALYSIS_HEIGHT); faster is a camera move
+const CREDITS_SHIFT_GAIN = 0.7; // Shifted profile must match this much better than the unshifted one
+const TECHNICAL_MIN_SECONDS: Record<TechnicalKind, number> = { black: 1, slate: 1, credits: 3 };
+const TECHNICAL_LABELS: Record<TechnicalKind, string> = { black: 'Black', slate: 'Bars / slate', credits: 'Rolling credits' };
+// Cut refinement
+const FALLBACK_FPS = 24; // When the browser cannot measure the frame rate
+const FPS_PROBE_FRAMES = 12; // Presented frames timed to measure the frame rate
+const FPS_PROBE_TIMEOUT_MS = 2000;
+const FPS_SNAP_TOLERANCE = 0.03; // Snap to a standard rate within 3%
+// Sequential decode
+const PLAYBACK_RATE = 16; // Highest rate browsers allow; muted, so no audio limit
+const PLAYBACK_STALL_MS = 2000; // No presented frame for this long => fall back to seeking
+const COARSE_PROGRESS_SHARE = 90; // Progress percent for the coarse pass; refinement takes the rest
+const AUDIO_THRESHOLD = 60; // Audio discontinuity score (0-100) that alone counts as a cut
+// Fused cut rule: VISUAL_WEIGHT * diff/threshold + AUDIO_WEIGHT * audio/AUDIO_THRESHOLD >= 1.
+// Visual alone needs ~1.4x the threshold (flashes over continuous audio are ignored), audio alone
+// needs twice its threshold, and a strong audio cue lets a weak visual change through (dark scenes).
+const VISUAL_WEIGHT = 0.7;
+const AUDIO_WEIGHT = 0.5;
+const AUDIO_SLACK = 0.1; // Seconds an audio cue may trail the sampled frame (analysis frame + decoder offset)
+const TRIGGER_SHARE = 0.5; // Both signals at half their threshold or more => 'both'
+
+export type SceneDetectionOptions = Pick<
+  AnalysisSettings,
+  'sceneThreshold' | 'sceneThresholdMode' | 'sceneAdaptiveSensitivity' | 'sceneSampleFps' | 'sceneLuminanceWeight' | 'sceneMinLength'
+>;
+
+export const DEFAULT_SCENE_OPTIONS: SceneDetectionOptions = {
+  sceneThreshold: DEFAULT_THRESHOLD,
+  sceneThresholdMode: 'fixed',
+  sceneAdaptiveSensitivity: DEFAULT_ADAPTIVE_SENSITIVITY,
+  sceneSampleFps: DEFAULT_SAMPLE_FPS,
+  sceneLuminanceWeight: DEFAULT_LUMINANCE_WEIGHT,
+  sceneMinLength: DEFAULT_MIN_SCENE_LENGTH,
+};
+
+export type ScenePreset = 'trailer' | 'drama' | 'talkShow';
+
+// Starting points for common material; every field can still be tuned afterwards
+export const SCENE_PRESETS: Record<ScenePreset, { label: string; options: SceneDetectionOptions }> = {
+  // Fast cutting, flashes and titles: sample densely and let the threshold follow the edit pace
+  trailer: {
+    label: 'Trailer',
+    options: { sceneThreshold: 12, sceneThresholdMode: 'adaptive', sceneAdaptiveSensitivity: 2.5, sceneSampleFps: 4, sceneLuminanceWeight: 0.6, sceneMinLength: 0.5 },
+  },
+  // Longer takes and low-key lighting: a lower fixed threshold catches cuts between dark shots
+  drama: {
+    label: 'Drama',
+    options: { sceneThreshold: 12, sceneThresholdMode: 'fixed', sceneAdaptiveSensitivity: DEFAULT_ADAPTIVE_SENSITIVITY, sceneSampleFps: 2, sceneLuminanceWeight: 0.7, sceneMinLength: 2 },
+  },
+  // Evenly lit studio: camera switches change colour more than brightness
+  talkShow: {
+    label: 'Talk show',
+    options: { sceneThreshold: 10, sceneThresholdMode: 'fixed', sceneAdaptiveSensitivity: DEFAULT_ADAPTIVE_SENSITIVITY, sceneSampleFps: 2, sceneLuminanceWeight: 0.4, sceneMinLength: 1.5 },
+  },
+};
+
+/**
+ * Preset whose options all match the given settings, or null for a custom combination.
+ */
+export const matchScenePreset = (options: SceneDetectionOptions): ScenePreset | null =>
+  (Object.keys(SCENE_PRESETS) as ScenePreset[]).find(preset => {
+    const presetOptions = SCENE_PRESETS[preset].options;
+    return (Object.keys(presetOptions) as (keyof SceneDetectionOptions)[]).every(key => presetOptions[key] === options[key]);
+  }) ?? null;
 
 interface FrameSignature {
   avgLuminance: number;
   histogram: number[]; // Reduced depth color histogram
+  stripLuminance: number[]; // Average luminance of WIPE_STRIPS vertical strips, left to right
+  rowLuminance: number[]; // Average luminance of each row, top to bottom
+  luminanceStd: number;
+  verticalVariation: number; // Share of pixels that change by BARS_PIXEL_CHANGE BARS_ROW_STEP rows down
+  columnStd: number; // Standard deviation of the per-column average luminance over the top BARS_TOP_SHARE
+  darkFraction: number; // Share of pixels below CREDITS_DARK_LUMINANCE
+  brightFraction: number; // Share of pixels above CREDITS_BRIGHT_LUMINANCE
+}
+
+interface SampledFrame {
+  time: number;
+  signature: FrameSignature;
 }
 
 /**
  * Detects visual scene cuts using Histogram & Luminance Difference.
  * Implements the specific algorithm described:
  * 1. Resize to 128px wide.
- * 2. Calculate Luminance (70% weight) and Color Histogram (30% weight).
- * 3. Compare signatures to detect cuts.
+ * 2. Calculate Luminance (70% weight by default) and Color Histogram (the rest).
+ * 3. Compare signatures to detect cuts, against a fixed threshold or one adapted to recent diffs.
+ * 4. Track runs of moderate changes to find fades, dissolves and wipes that no single step reveals.
+ * 5. Binary-search each hard cut between its bracketing samples down to the exact frame.
+ * Alongside the scenes, sustained black, bars/slate and rolling-credit stretches are returned as
+ * 'technical' nodes, which are kept out of AI analysis and subtitle exports.
+ * Frames are decoded sequentially by fast muted playback (requestVideoFrameCallback); browsers
+ * without it, or where playback stalls, fall back to seeking sample by sample.
+ * With a range, only [start, end) is scanned; timestamps stay absolute.
+ * With an audio signal, each visual diff is fused with the audio discontinuities since the
+ * previous sample, and every cut records which signal triggered it.
+ * Aborting stops the scan and resolves with the scenes found so far (unrefined).
  */
 export const detectScenes = async (
   videoFile: File, 
-  onProgress: (percentage: number) => void,
-  threshold: number = DEFAULT_THRESHOLD
+  onProgress: (percentage: number, framesPerSecond: number) => void,
+  options: SceneDetectionOptions = DEFAULT_SCENE_OPTIONS,
+  range: AnalysisRange | null = null,
+  audio: AudioBoundarySignal | null = null,
+  signal?: AbortSignal
 ): Promise<SubtitleNode[]> => {
   
   return new Promise((resolve, reject) => {
@@ -48,12 +172,35 @@ export const detectScenes = async (
     video.crossOrigin = "anonymous";
 
     const scenes: SubtitleNode[] = [];
+    const technical: SubtitleNode[] = [];
+    let technicalRun: { kind: TechnicalKind; start: number } | null = null;
+    const recentRows: number[][] = []; // Row profiles of the last CREDITS_LAG_SECONDS, oldest first
+    const creditsLag = Math.max(1, Math.round(CREDITS_LAG_SECONDS * options.sceneSampleFps));
     
+    const samplingInterval = 1 / options.sceneSampleFps;
+    const recentDiffs: number[] = [];
+    const adaptiveWindow = Math.max(ADAPTIVE_MIN_SAMPLES, Math.round(ADAPTIVE_WINDOW_SECONDS * options.sceneSampleFps));
+
     let prevSignature: FrameSignature | null = null;
-    let lastCutTime = 0;
+    let prevSampleTime = range?.start ?? 0;
+    let lastCutTime = range?.start ?? 0;
+
+    // Current run of moderate steps (candidate gradual transition)
+    let run: SampledFrame[] = [];
+    let runTooLong = false;
+    const maxRunSamples = Math.max(GRADUAL_MIN_STEPS, Math.round(GRADUAL_MAX_SECONDS * options.sceneSampleFps)) + 1;
     
     // Temporary storage for the start frame of the current scene
     let currentSceneThumbnail: string | null = null;
+    let currentBoundary: SceneBoundary | undefined;
+    let currentTransition: SceneTransition | undefined;
+    let currentCutBracket: number | undefined; // Sample before a hard cut, for refinement
+    const cutBrackets = new Map<string, number>();
+
+    // Throughput: frames decoded per second of wall-clock time
+    let decodedFrames = 0;
+    const startedAt = performance.now();
+    const framesPerSecond = () => decodedFrames / Math.max(0.001, (performance.now() - startedAt) / 1000);
 
     const seekTo = (time: number): Promise<void> => {
       return new Promise((resolveSeek) => {
@@ -66,81 +213,285 @@ export const detectScenes = async (
       });
     };
 
-    video.onloadedmetadata = async () => {
-      const duration = video.duration;
-      let currentTime = 0;
+    // Signature of the frame currently shown (also left on the canvas for thumbnails)
+    const drawSignature = (): FrameSignature => {
+      ctx.drawImage(video, 0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+      return getFrameSignature(ctx.getImageData(0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT));
+    };
+
+    const sampleAt = async (time: number): Promise<FrameSignature> => {
+      await seekTo(time);
+      return drawSignature();
+    };
+
+    const pushScene = (endTime: number) => {
+      const id = crypto.randomUUID();
+      if (currentCutBracket !== undefined) cutBrackets.set(id, currentCutBracket);
+      scenes.push({
+        id,
+        timestamp: lastCutTime,
+        endTime,
+        type: 'scene',
+        text: `${SCENE_PLACEHOLDER_PREFIX} ${scenes.length + 1}`,
+        thumbnail: currentSceneThumbnail || undefined,
+        isAutoGenerated: true,
+        boundary: currentBoundary,
+        transition: currentTransition
+      });
+    };
+
+    const closeTechnicalRun = (end: number) => {
+      if (technicalRun && end - technicalRun.start >= TECHNICAL_MIN_SECONDS[technicalRun.kind]) {
+        technical.push({
+          id: crypto.randomUUID(),
+          timestamp: technicalRun.start,
+          endTime: end,
+          type: 'technical',
+          technicalKind: technicalRun.kind,
+          text: TECHNICAL_LABELS[technicalRun.kind],
+          isAutoGenerated: true
+        });
+      }
+      technicalRun = null;
+    };
+
+    const trackTechnical = (time: number, signature: FrameSignature) => {
+      const lagged = recentRows.length >= creditsLag ? recentRows[recentRows.length - creditsLag] : null;
+      recentRows.push(signature.rowLuminance);
+      if (recentRows.length > creditsLag) recentRows.shift();
+
+      const kind = classifyTechnical(signature, lagged);
+      if (kind === technicalRun?.kind) return;
+      closeTechnicalRun(time);
+      if (kind) technicalRun = { kind, start: time };
+    };
+
+    /**
+     * Runs the cut rules on one sample whose frame is on the canvas.
+     */
+    const processSample = (time: number, signature: FrameSignature) => {
+      trackTechnical(time, signature);
+
+      // Capture the very first frame as the start of the first scene
+      if (!prevSignature) {
+        currentSceneThumbnail = canvas.toDataURL('image/jpeg', 0.7);
+        prevSignature = signature;
+        prevSampleTime = time;
+        return;
+      }
+
+      // 3. Compare with previous
+      const diff = getFrameDiff(prevSignature, signature, options.sceneLuminanceWeight);
+      const threshold = options.sceneThresholdMode === 'adaptive'
+        ? adaptiveThreshold(recentDiffs, options.sceneThreshold, options.sceneAdaptiveSensitivity)
+        : options.sceneThreshold;
+      const boundary = audio
+        ? fuseBoundary(diff, threshold, audioBoundaryScore(audio, prevSampleTime, time + AUDIO_SLACK))
+        : (diff > threshold ? visualBoundary(diff, threshold) : null);
       
-      try {
-        // 1. Analysis Loop
-        while (currentTime < duration) {
-          await seekTo(currentTime);
-
-          // Draw frame
-          ctx.drawImage(video, 0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
-          const imageData = ctx.getImageData(0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
-
-          // 2. Calculate Signature
-          const signature = getFrameSignature(imageData);
-
-          // Capture the very first frame as the start of the first scene
-          if (currentTime === 0) {
-            currentSceneThumbnail = canvas.toDataURL('image/jpeg', 0.7);
-            prevSignature = signature;
-            currentTime += SAMPLING_RATE;
-            continue;
+      // 4. Threshold Check
+      // Ensure min scene length to avoid flicker
+      const isCut = boundary !== null && (time - lastCutTime) >= options.sceneMinLength;
+
+      // Cuts stay out of the rolling window so one hard cut does not mask the next
+      if (!isCut) {
+        recentDiffs.push(diff);
+        if (recentDiffs.length > adaptiveWindow) recentDiffs.shift();
+      }
+
+      let cut: { time: number; boundary: SceneBoundary; transition?: SceneTransition } | null =
+        isCut && boundary ? { time, boundary } : null;
+
+      // 5. Gradual Transition Check
+      if (isCut) {
+        run = [];
+        runTooLong = false;
+      } else if (diff >= threshold * GRADUAL_STEP_RATIO) {
+        if (!runTooLong) {
+          if (run.length === 0) run.push({ time: prevSampleTime, signature: prevSignature });
+          run.push({ time, signature });
+          if (run.length > maxRunSamples) {
+            run = [];
+            runTooLong = true;
           }
+        }
+      } else {
+        // The picture settled: judge the run as a whole
+        const gradual = run.length > GRADUAL_MIN_STEPS ? detectGradualTransition(run, options.sceneLuminanceWeight) : null;
+        if (gradual && (gradual.transition.start - lastCutTime) >= options.sceneMinLength) {
+          const { start, end } = gradual.transition;
+          const gradualBoundary = audio
+            ? fuseBoundary(gradual.diff, threshold, audioBoundaryScore(audio, start, end + AUDIO_SLACK))
+            : (gradual.diff > threshold ? visualBoundary(gradual.diff, threshold) : null);
+          if (gradualBoundary) cut = { time: start, boundary: gradualBoundary, transition: gradual.transition };
+        }
+        run = [];
+        runTooLong = false;
+      }
+
+      if (cut) {
+        
+        // SCENE DETECTED!
+        // The *previous* scene ended here (at the start of a gradual transition).
+        pushScene(cut.time);
+
+        // Reset for new scene
+        lastCutTime = cut.time;
+        currentBoundary = cut.boundary;
+        currentTransition = cut.transition;
+        currentCutBracket = cut.transition ? undefined : prevSampleTime;
+        // Capture thumbnail for the NEW scene (after any transition has settled)
+        currentSceneThumbnail = canvas.toDataURL('image/jpeg', 0.7);
+      }
+
+      prevSignature = signature;
+      prevSampleTime = time;
+    };
+
+    let fps = FALLBACK_FPS;
+    // Middle of the frame, so seeking lands on it despite rounding in the decoder
+    const frameTime = (frame: number) => Math.min((frame + 0.5) / fps, video.duration);
+
+    /**
+     * First frame of the new shot for a cut that lies in (before, after].
+     * Bisects on which side of the midpoint the signature changes most, using the same diff as the coarse pass.
+     */
+    const refineCut = async (before: number, after: number): Promise<number> => {
+      let lo = Math.floor(before * fps + 1e-6); // Last frame known to be the old shot
+      let hi = Math.max(lo + 1, Math.floor(after * fps + 1e-6)); // First frame known to be the new shot
+      let loSignature = await sampleAt(frameTime(lo));
+      let hiSignature = await sampleAt(frameTime(hi));
+
+      while (hi - lo > 1) {
+        const mid = Math.floor((lo + hi) / 2);
+        const midSignature = await sampleAt(frameTime(mid));
+        if (getFrameDiff(loSignature, midSignature, options.sceneLuminanceWeight) > getFrameDiff(midSignature, hiSignature, options.sceneLuminanceWeight)) {
+          hi = mid;
+          hiSignature = midSignature;
+        } else {
+          lo = mid;
+          loSignature = midSignature;
+        }
+      }
+      return hi;
+    };
+
+    /**
+     * Sequential decode: plays [from, to) fast and samples presented frames as they arrive.
+     * Resolves false if frames stop arriving (unsupported or throttled), so the caller can
+     * continue by seeking from the last sample.
+     */
+    const scanByPlayback = async (from: number, to: number, report: (time: number) => void): Promise<boolean> => {
+      await seekTo(from);
+      return new Promise((resolveScan, rejectScan) => {
+        let nextSample = from;
+        let watchdog: ReturnType<typeof setTimeout> | undefined;
+        let done = false;
 
-          // 3. Compare with previous
-          if (prevSignature) {
-            const diff = getFrameDiff(prevSignature, signature);
-            
-            // 4. Threshold Check
-            // Ensure min scene length of 1s to avoid flicker
-            if (diff > threshold && (currentTime - lastCutTime) >= 1.0) {
-              
-              // SCENE DETECTED!
-              // The *previous* scene ended here.
-              
-              scenes.push({
-                id: crypto.randomUUID(),
-                timestamp: lastCutTime,
-                endTime: currentTime,
-                type: 'scene',
-                text: `Visual Scene ${scenes.length + 1}`,
-                thumbnail: currentSceneThumbnail || undefined,
-                isAutoGenerated: true
-              });
-
-              // Reset for new scene
-              lastCutTime = currentTime;
-              // Capture thumbnail for the NEW scene starting now
-              currentSceneThumbnail = canvas.toDataURL('image/jpeg', 0.7);
+        const stop = (completed: boolean, error?: unknown) => {
+          if (done) return;
+          done = true;
+          clearTimeout(watchdog);
+          signal?.removeEventListener('abort', onAbort);
+          video.onended = null;
+          video.pause();
+          video.playbackRate = 1;
+          if (error) rejectScan(error);
+          else resolveScan(completed);
+        };
+        const onAbort = () => stop(true);
+        const armWatchdog = () => {
+          clearTimeout(watchdog);
+          watchdog = setTimeout(() => stop(false), PLAYBACK_STALL_MS);
+        };
+
+        const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+          if (done) return;
+          try {
+            decodedFrames++;
+            const time = metadata.mediaTime;
+            if (time >= to) {
+              stop(true);
+              return;
             }
+            if (time >= nextSample) {
+              processSample(time, drawSignature());
+              report(time);
+              while (nextSample <= time) nextSample += samplingInterval;
+            }
+            armWatchdog();
+            video.requestVideoFrameCallback(onFrame);
+          } catch (error) {
+            stop(false, error);
           }
+        };
 
-          prevSignature = signature;
-          
-          // Progress
-          const progress = Math.round((currentTime / duration) * 100);
-          onProgress(progress);
+        video.onended = () => stop(true);
+        signal?.addEventListener('abort', onAbort);
+        if (signal?.aborted) {
+          stop(true);
+          return;
+        }
+        armWatchdog();
+        video.requestVideoFrameCallback(onFrame);
+        video.playbackRate = PLAYBACK_RATE;
+        video.play().catch(() => stop(false));
+      });
+    };
 
-          currentTime += SAMPLING_RATE;
+    const scanBySeeking = async (from: number, to: number, report: (time: number) => void) => {
+      for (let time = from; time < to && !signal?.aborted; time += samplingInterval) {
+        const signature = await sampleAt(time);
+        decodedFrames++;
+        processSample(time, signature);
+        report(time);
+      }
+    };
+
+    video.onloadedmetadata = async () => {
+      const startTime = range?.start ?? 0;
+      const duration = Math.min(video.duration, range?.end ?? video.duration);
+      const report = (time: number) => {
+        // Progress
+        const progress = Math.round(((time - startTime) / (duration - startTime)) * COARSE_PROGRESS_SHARE);
+        onProgress(progress, framesPerSecond());
+      };
+      
+      try {
+        fps = await measureFrameRate(video) ?? FALLBACK_FPS;
+
+        // 1. Analysis Loop (2.-5. run per sample in processSample)
+        const completed = 'requestVideoFrameCallback' in video && await scanByPlayback(startTime, duration, report);
+        if (!completed && !signal?.aborted) {
+          await scanBySeeking(prevSignature ? prevSampleTime + samplingInterval : startTime, duration, report);
         }
 
-        // Add the final scene
-        if (lastCutTime < duration) {
-          scenes.push({
-             id: crypto.randomUUID(),
-             timestamp: lastCutTime,
-             endTime: duration,
-             type: 'scene',
-             text: `Visual Scene ${scenes.length + 1}`,
-             thumbnail: currentSceneThumbnail || undefined,
-             isAutoGenerated: true
-          });
+        // Add the final scene; a cancelled scan ends at the last frame analysed
+        const scannedTo = signal?.aborted ? prevSampleTime : duration;
+        if (prevSignature && lastCutTime < scannedTo) {
+          pushScene(scannedTo);
         }
+        closeTechnicalRun(scannedTo);
 
-        resolve(scenes);
+        // 6. Frame-accurate refinement of hard cuts (gradual transitions are spans, not frames)
+        for (let i = 1; i < scenes.length && !signal?.aborted; i++) {
+          const scene = scenes[i];
+          const before = cutBrackets.get(scene.id);
+          if (before === undefined) continue;
+
+          const frame = await refineCut(before, scene.timestamp);
+          const timestamp = frame / fps;
+          scenes[i - 1].endTime = timestamp;
+          scene.timestamp = timestamp;
+          scene.startFrame = { frame, fps };
+          // The canvas still holds the last frame searched; draw the true first frame of the shot
+          await sampleAt(frameTime(frame));
+          scene.thumbnail = canvas.toDataURL('image/jpeg', 0.7);
+
+          onProgress(COARSE_PROGRESS_SHARE + Math.round((i / scenes.length) * (100 - COARSE_PROGRESS_SHARE)), framesPerSecond());
+        }
+
+        resolve([...scenes, ...technical]);
 
       } catch (error) {
         console.error("Scene detection error:", error);
@@ -159,6 +510,199 @@ export const detectScenes = async (
   });
 };
 
+/**
+ * Measures the frame rate from presented-frame media times during a short muted playback,
+ * snapped to a standard rate when close. Null when requestVideoFrameCallback is unavailable.
+ */
+function measureFrameRate(video: HTMLVideoElement): Promise<number | null> {
+  if (!('requestVideoFrameCallback' in video)) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    const mediaTimes: number[] = [];
+    let done = false;
+
+    const finish = () => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      video.pause();
+
+      // Dropped frames show up as multiples of the frame duration; the median ignores them
+      const deltas = mediaTimes.slice(1).map((t, i) => t - mediaTimes[i]).filter(d => d > 0).sort((a, b) => a - b);
+      if (deltas.length === 0) {
+        resolve(null);
+        return;
+      }
+      const measured = 1 / deltas[Math.floor(deltas.length / 2)];
+      const standard = FRAME_RATES.map(getActualFps).find(rate => Math.abs(rate - measured) / rate <= FPS_SNAP_TOLERANCE);
+      resolve(standard ?? measured);
+    };
+    const timer = setTimeout(finish, FPS_PROBE_TIMEOUT_MS);
+
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      mediaTimes.push(metadata.mediaTime);
+      if (mediaTimes.length >= FPS_PROBE_FRAMES) finish();
+      else if (!done) video.requestVideoFrameCallback(onFrame);
+    };
+    video.requestVideoFrameCallback(onFrame);
+    video.play().catch(finish);
+  });
+}
+
+/**
+ * Black, bars/slate or rolling credits; null for programme picture.
+ * Credits need the row profile from CREDITS_LAG_SECONDS earlier to see the upward scroll.
+ */
+function classifyTechnical(signature: FrameSignature, laggedRows: number[] | null): TechnicalKind | null {
+  if (signature.avgLuminance < BLACK_FRAME_LUMINANCE && signature.luminanceStd < BLACK_FRAME_STD) return 'black';
+  if (signature.avgLuminance >= BLACK_FRAME_LUMINANCE && signature.luminanceStd < UNIFORM_STD) return 'slate';
+  if (signature.columnStd > BARS_MIN_STD && signature.verticalVariation < BARS_MAX_VERTICAL_VARIATION) return 'slate';
+
+  const looksLikeText = signature.darkFraction >= CREDITS_MIN_DARK &&
+    signature.brightFraction >= CREDITS_MIN_TEXT && signature.brightFraction <= CREDITS_MAX_TEXT;
+  if (looksLikeText && laggedRows && verticalShift(laggedRows, signature.rowLuminance) > 0) return 'credits';
+  return null;
+}
+
+/**
+ * Rows the content moved up between two row profiles (negative = down), or 0 when no shift
+ * explains the change clearly better than none.
+ */
+function verticalShift(before: number[], after: number[]): number {
+  const mismatch = (shift: number) => {
+    let sum = 0;
+    let count = 0;
+    // Content at row r before is at row r - shift after
+    for (let r = Math.max(0, shift); r < before.length && r - shift < after.length; r++) {
+      sum += Math.abs(before[r] - after[r - shift]);
+      count++;
+    }
+    return count > 0 ? sum / count : Infinity;
+  };
+
+  const still = mismatch(0);
+  let best = 0;
+  let bestMismatch = still;
+  for (let shift = -CREDITS_MAX_SHIFT; shift <= CREDITS_MAX_SHIFT; shift++) {
+    const m = mismatch(shift);
+    if (m < bestMismatch) {
+      best = shift;
+      bestMismatch = m;
+    }
+  }
+  return bestMismatch < still * CREDITS_SHIFT_GAIN ? best : 0;
+}
+
+/**
+ * Rolling mean + sensitivity * stddev of recent diffs, never below the configured floor.
+ * Busy footage (handheld, fast motion) raises the bar; static footage lowers it to the floor.
+ */
+function adaptiveThreshold(recentDiffs: number[], floor: number, sensitivity: number): number {
+  if (recentDiffs.length < ADAPTIVE_MIN_SAMPLES) return floor;
+  const mean = recentDiffs.reduce((sum, d) => sum + d, 0) / recentDiffs.length;
+  const variance = recentDiffs.reduce((sum, d) => sum + (d - mean) * (d - mean), 0) / recentDiffs.length;
+  return Math.max(floor, mean + sensitivity * Math.sqrt(variance));
+}
+
+/**
+ * Judges a settled run of moderate changes. Returns the transition and the diff between its
+ * endpoints (for the cut rule), or null when the change drifted back and forth (camera motion).
+ */
+function detectGradualTransition(
+  run: SampledFrame[],
+  luminanceWeight: number
+): { transition: SceneTransition; diff: number } | null {
+  const first = run[0].signature;
+
+  // A transition moves steadily away from where it started
+  let previousDrift = 0;
+  for (let i = 1; i < run.length; i++) {
+    const drift = getFrameDiff(first, run[i].signature, luminanceWeight);
+    if (drift < previousDrift - DRIFT_TOLERANCE) return null;
+    previousDrift = drift;
+  }
+
+  return {
+    transition: { kind: classifyTransition(run), start: run[0].time, end: run[run.length - 1].time },
+    diff: previousDrift,
+  };
+}
+
+function classifyTransition(run: SampledFrame[]): SceneTransition['kind'] {
+  const luminance = run.map(frame => frame.signature.avgLuminance);
+  const startLum = luminance[0];
+  const endLum = luminance[luminance.length - 1];
+
+  const isRamp = (direction: 1 | -1) =>
+    luminance.every((lum, i) => i === 0 || direction * (lum - luminance[i - 1]) >= -LUMINANCE_TOLERANCE);
+  if (endLum < BLACK_LUMINANCE && startLum - endLum >= FADE_MIN_RANGE && isRamp(-1)) return 'fade-out';
+  if (startLum < BLACK_LUMINANCE && endLum - startLum >= FADE_MIN_RANGE && isRamp(1)) return 'fade-in';
+
+  // Wipe: strips switch from old to new content one after another, left to right or right to left.
+  // A dissolve switches them all at once.
+  const first = run[0].signature.stripLuminance;
+  const last = run[run.length - 1].signature.stripLuminance;
+  const switchIndices: number[] = [];
+  for (let strip = 0; strip < WIPE_STRIPS; strip++) {
+    const change = last[strip] - first[strip];
+    if (Math.abs(change) < WIPE_MIN_STRIP_CHANGE) continue;
+    const index = run.findIndex(frame => Math.abs(frame.signature.stripLuminance[strip] - first[strip]) >= Math.abs(change) / 2);
+    switchIndices.push(index);
+  }
+  if (switchIndices.length >= WIPE_MIN_CHANGED_STRIPS) {
+    const ordered = (direction: 1 | -1) =>
+      switchIndices.every((index, i) => i === 0 || direction * (index - switchIndices[i - 1]) >= 0);
+    const spread = Math.max(...switchIndices) - Math.min(...switchIndices);
+    if (spread > 0 && (ordered(1) || ordered(-1))) return 'wipe';
+  }
+
+  return 'dissolve';
+}
+
+/**
+ * Boundary for the visual-only rule (no audio signal available).
+ */
+function visualBoundary(diff: number, threshold: number): SceneBoundary {
+  return {
+    trigger: 'visual',
+    confidence: roundScore(Math.min(1, diff / threshold / 2), 2),
+    visualScore: roundScore(diff, 1),
+    audioScore: 0,
+  };
+}
+
+/**
+ * Applies the fused cut rule. Returns null when the combined evidence is below the cut line.
+ * Confidence reaches 1 at twice the cut line.
+ */
+function fuseBoundary(
+  diff: number,
+  threshold: number,
+  audio: ReturnType<typeof audioBoundaryScore>
+): SceneBoundary | null {
+  const visual = diff / threshold;
+  const aural = audio.score / AUDIO_THRESHOLD;
+  const combined = VISUAL_WEIGHT * visual + AUDIO_WEIGHT * aural;
+  if (combined < 1) return null;
+
+  const trigger: SceneBoundary['trigger'] = visual >= TRIGGER_SHARE && aural >= TRIGGER_SHARE
+    ? 'both'
+    : (VISUAL_WEIGHT * visual >= AUDIO_WEIGHT * aural ? 'visual' : 'audio');
+
+  return {
+    trigger,
+    confidence: roundScore(Math.min(1, combined / 2), 2),
+    visualScore: roundScore(diff, 1),
+    audioScore: roundScore(audio.score, 1),
+    audioCue: audio.cue ?? undefined,
+  };
+}
+
+function roundScore(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
 /**
  * Calculates Frame Signature: Average Luminance + Color Histogram
  */
@@ -175,6 +719,15 @@ function getFrameSignature(imageData: ImageData): FrameSignature {
   const rHist = new Array(16).fill(0);
   const gHist = new Array(16).fill(0);
   const bHist = new Array(16).fill(0);
+  const stripTotals = new Array(WIPE_STRIPS).fill(0);
+  const stripWidth = imageData.width / WIPE_STRIPS;
+  const rowTotals = new Array(imageData.height).fill(0);
+  const columnTotals = new Array(imageData.width).fill(0);
+  const topRows = Math.max(1, Math.round(imageData.height * BARS_TOP_SHARE));
+  const lumValues = new Float32Array(pixelCount);
+  let lumSquares = 0;
+  let darkPixels = 0;
+  let brightPixels = 0;
 
   for (let i = 0; i < data.length; i += 4) {
     const r = data[i];
@@ -184,6 +737,13 @@ function getFrameSignature(imageData: ImageData): FrameSignature {
     // Luminance standard formula
     const lum = 0.299 * r + 0.587 * g + 0.114 * b;
     totalLum += lum;
+    stripTotals[Math.floor(((i / 4) % imageData.width) / stripWidth)] += lum;
+    rowTotals[Math.floor(i / 4 / imageData.width)] += lum;
+    if (i / 4 < topRows * imageData.width) columnTotals[(i / 4) % imageData.width] += lum;
+    lumValues[i / 4] = lum;
+    lumSquares += lum * lum;
+    if (lum < CREDITS_DARK_LUMINANCE) darkPixels++;
+    else if (lum > CREDITS_BRIGHT_LUMINANCE) brightPixels++;
 
     // Histogram (reduce 0-255 to 0-15)
     // r >> 4 is equivalent to Math.floor(r / 16)
@@ -195,18 +755,37 @@ function getFrameSignature(imageData: ImageData): FrameSignature {
   // Normalize Histogram (so it sums to 1, effectively probability distribution)
   const normalize = (hist: number[]) => hist.map(v => v / pixelCount);
 
+  // Vertical variation: colour bars are columns that stay the same all the way down
+  const rowOffset = BARS_ROW_STEP * imageData.width;
+  let verticalChanges = 0;
+  for (let p = 0; p + rowOffset < pixelCount; p++) {
+    if (Math.abs(lumValues[p] - lumValues[p + rowOffset]) > BARS_PIXEL_CHANGE) verticalChanges++;
+  }
+
+  const avgLuminance = totalLum / pixelCount;
+  const columnMeans = columnTotals.map(total => total / topRows);
+  const topLuminance = columnMeans.reduce((sum, m) => sum + m, 0) / columnMeans.length;
+  const columnStd = Math.sqrt(columnMeans.reduce((sum, m) => sum + (m - topLuminance) ** 2, 0) / columnMeans.length);
+
   return {
-    avgLuminance: totalLum / pixelCount,
-    histogram: [...normalize(rHist), ...normalize(gHist), ...normalize(bHist)]
+    avgLuminance,
+    histogram: [...normalize(rHist), ...normalize(gHist), ...normalize(bHist)],
+    stripLuminance: stripTotals.map(total => total / (pixelCount / WIPE_STRIPS)),
+    rowLuminance: rowTotals.map(total => total / imageData.width),
+    luminanceStd: Math.sqrt(Math.max(0, lumSquares / pixelCount - avgLuminance * avgLuminance)),
+    verticalVariation: verticalChanges / Math.max(1, pixelCount - rowOffset),
+    columnStd,
+    darkFraction: darkPixels / pixelCount,
+    brightFraction: brightPixels / pixelCount
   };
 }
 
 /**
  * Calculates weighted difference between two signatures.
- * Weight: 70% Luminance Diff, 30% Histogram Diff
+ * Weight: luminanceWeight for Luminance Diff (default 70%), the rest for Histogram Diff
  * Returns a score roughly 0-100.
  */
-function getFrameDiff(sig1: FrameSignature, sig2: FrameSignature): number {
+function getFrameDiff(sig1: FrameSignature, sig2: FrameSignature, luminanceWeight: number = DEFAULT_LUMINANCE_WEIGHT): number {
   // 1. Luminance Diff (0-255 range usually, normalize to percentage 0-100)
   const lumDiff = Math.abs(sig1.avgLuminance - sig2.avgLuminance);
   // Max lum diff is 255. Normalize to 0-1.
@@ -227,8 +806,8 @@ function getFrameDiff(sig1: FrameSignature, sig2: FrameSignature): number {
   const histScore = histDiffSum / 6;
 
   // 3. Weighted Combination
-  // Weights: 0.7 Luminance, 0.3 Histogram
-  const weightedDiff = (lumScore * 0.7) + (histScore * 0.3);
+  // Weights: 0.7 Luminance, 0.3 Histogram by default
+  const weightedDiff = (lumScore * luminanceWeight) + (histScore * (1 - luminanceWeight));
 
   // Return as 0-100 scale
   return weightedDiff * 100;
@@ -0,0 +1,266 @@
+import { AnalysisSegment, AudioChunk, MusicAnalysis, SegmentRepair } from "../types";
+import { createAnalysisError } from "./analysisErrors";
+
+/**
+ * Checks AI audio segments against the response schema and the audio they describe before they
+ * become nodes. Anything fixable is fixed, the rest is dropped, and every change is logged.
+ */
+
+// CONFIGURATION
+const MIN_SEGMENT_DURATION = 0.2; // Shorter segments are timing noise, not a line or a cue
+const TIME_TOLERANCE = 0.05; // Overshoot past the window end this small is rounding, clamped silently
+
+const SEGMENT_TYPES: Record<AnalysisSegment['type'], true> = { dialogue: true, music: true, silence: true };
+
+const MUSIC_ENUMS: { [K in Exclude<keyof MusicAnalysis, 'sentimentScore'>]: Record<MusicAnalysis[K], true> } = {
+  source: { 'Diegetic': true, 'Non-Diegetic': true, 'Silence/Ambient': true },
+  tempo: { Slow: true, Medium: true, Fast: true },
+  dynamics: { Low: true, Medium: true, High: true },
+  progression: { Crescendo: true, Diminuendo: true, Sustained: true },
+  harmonicMode: { Major: true, Minor: true },
+};
+
+export interface SegmentValidationResult {
+  segments: AnalysisSegment[]; // Absolute time, never 'silence', never empty text
+  repairs: SegmentRepair[];
+}
+
+/**
+ * Validates one analyzeAudio response for the audio window [windowStart, windowEnd) and shifts it
+ * to absolute time. The window lies inside the video, so clamping to it also bounds every segment
+ * by the video duration.
+ *
+ * - Times must be numbers (numeric strings are converted); they are clamped to the window and swapped when reversed
+ * - Silence with a description becomes an ambient music cue; bare silence is dropped (gaps need no node)
+ * - Empty text, unknown types and segments shorter than MIN_SEGMENT_DURATION are dropped
+ * - Invalid speaker/emotion/musicAnalysis fields are removed; sentimentScore is clamped to ±1; a missing or
+ *   invalid tempo is left out for utils/tempo.ts to derive from the BPM
+ *
+ * A response without a segments array is rejected as an invalid-response error, so the chunk can be retried.
+ */
+export const validateSegments = (response: unknown, windowStart: number, windowEnd: number): SegmentValidationResult => {
+  const raw = isRecord(response) ? response.segments : undefined;
+  if (!Array.isArray(raw)) {
+    throw createAnalysisError('invalid-response', 'Response has no "segments" array');
+  }
+
+  const windowLength = windowEnd - windowStart;
+  const segments: AnalysisSegment[] = [];
+  const repairs: SegmentRepair[] = [];
+
+  raw.forEach((item, i) => {
+    const label = `Segment ${i + 1}`;
+    const log = (time: number, action: SegmentRepair['action'], message: string) =>
+      repairs.push({ time: windowStart + Math.max(0, Math.min(time, windowLength)), action, message: `${label}: ${message}` });
+
+    if (!isRecord(item)) {
+      log(0, 'dropped', 'not an object');
+      return;
+    }
+
+    // 1. Timing
+    let startTime = toNumber(item.startTime);
+    let endTime = toNumber(item.endTime);
+    if (startTime === null || endTime === null) {
+      log(startTime ?? 0, 'dropped', `invalid times (${JSON.stringify(item.startTime)} - ${JSON.stringify(item.endTime)})`);
+      return;
+    }
+    if (typeof item.startTime !== 'number' || typeof item.endTime !== 'number') {
+      log(startTime, 'fixed', 'times given as strings');
+    }
+    if (endTime < startTime) {
+      log(endTime, 'fixed', `end ${formatSeconds(endTime)} before start ${formatSeconds(startTime)}, swapped`);
+      [startTime, endTime] = [endTime, startTime];
+    }
+    if (startTime >= windowLength) {
+      log(windowLength, 'dropped', `starts at ${formatSeconds(startTime)}, after the end of the ${formatSeconds(windowLength)} audio`);
+      return;
+    }
+    if (startTime < 0) {
+      log(0, 'fixed', `negative start ${formatSeconds(startTime)} clamped to 0`);
+      startTime = 0;
+    }
+    if (endTime > windowLength) {
+      if (endTime - windowLength > TIME_TOLERANCE) {
+        log(startTime, 'fixed', `end ${formatSeconds(endTime)} clamped to the ${formatSeconds(windowLength)} audio`);
+      }
+      endTime = windowLength;
+    }
+    if (endTime - startTime < MIN_SEGMENT_DURATION) {
+      log(startTime, 'dropped', `too short (${formatSeconds(endTime - startTime)})`);
+      return;
+    }
+
+    const start = startTime;
+    const fix = (message: string) => log(start, 'fixed', message);
+
+    // 2. Type and text
+    const text = typeof item.text === 'string' ? item.text.trim() : '';
+    if (!isMember(SEGMENT_TYPES, item.type)) {
+      log(start, 'dropped', `unknown type ${JSON.stringify(item.type)}`);
+      return;
+    }
+    if (!text) {
+      log(start, 'dropped', item.type === 'silence' ? 'silence without a description' : `${item.type} without text`);
+      return;
+    }
+    let type = item.type as AnalysisSegment['type'];
+    let musicAnalysis = item.musicAnalysis == null ? undefined : validateMusicAnalysis(item.musicAnalysis, fix);
+    if (type === 'silence') {
+      log(start, 'mapped', 'silence mapped to an ambient music cue');
+      type = 'music';
+      if (musicAnalysis) musicAnalysis = { ...musicAnalysis, source: 'Silence/Ambient' };
+    } else if (type === 'dialogue' && musicAnalysis) {
+      fix('musicAnalysis removed from dialogue');
+      musicAnalysis = undefined;
+    }
+
+    // 3. Optional fields
+    const speaker = optionalText(item.speaker, 'speaker', fix);
+    const emotion = optionalText(item.emotion, 'emotion', fix);
+
+    segments.push({
+      startTime: windowStart + start,
+      endTime: windowStart + endTime,
+      type,
+      text,
+      ...(speaker ? { speaker } : {}),
+      ...(emotion ? { emotion } : {}),
+      ...(musicAnalysis ? { musicAnalysis } : {}),
+    });
+  });
+
+  return { segments, repairs };
+};
+
+/**
+ * Trims overlapping dialogue in a merged, time-ordered segment list: the earlier line ends where the
+ * next begins. When that would leave it too short, the later line starts after it instead, and a line
+ * entirely inside another one is dropped.
+ */
+export const resolveDialogueOverlaps = <T extends AnalysisSegment>(segments: T[]): { segments: T[]; repairs: SegmentRepair[] } => {
+  const repairs: SegmentRepair[] = [];
+  const result = segments.map(seg => ({ ...seg }));
+  const dropped = new Set<T>();
+
+  let previous: T | null = null;
+  for (const seg of result) {
+    if (seg.type !== 'dialogue') continue;
+    if (previous && seg.startTime < previous.endTime) {
+      if (seg.startTime - previous.startTime >= MIN_SEGMENT_DURATION) {
+        repairs.push({ time: seg.startTime, action: 'fixed', message: `Dialogue overlap: previous line ended at ${formatSeconds(previous.endTime)}, trimmed to ${formatSeconds(seg.startTime)}` });
+        previous.endTime = seg.startTime;
+      } else if (seg.endTime - previous.endTime >= MIN_SEGMENT_DURATION) {
+        repairs.push({ time: seg.startTime, action: 'fixed', message: `Dialogue overlap: line moved from ${formatSeconds(seg.startTime)} to ${formatSeconds(previous.endTime)}` });
+        seg.startTime = previous.endTime;
+      } else {
+        repairs.push({ time: seg.startTime, action: 'dropped', message: `Dialogue overlap: "${truncate(seg.text)}" lies inside the previous line` });
+        dropped.add(seg);
+        continue;
+      }
+    }
+    previous = seg;
+  }
+
+  return { segments: result.filter(seg => !dropped.has(seg)), repairs };
+};
+
+export interface RepairLogEntry {
+  location: string; // "Chunk 3 · 4:12.5", or "Merge · 4:12.5" for fixes across chunks
+  repair: SegmentRepair;
+}
+
+/**
+ * The diagnostics log of a chunked run: each chunk's response repairs in chunk order, then the merge repairs.
+ */
+export const listRunRepairs = (chunks: AudioChunk[], mergeRepairs: SegmentRepair[]): RepairLogEntry[] => [
+  ...chunks.flatMap(chunk => (chunk.repairs ?? []).map(repair => ({ location: `Chunk ${chunk.index + 1} · ${formatClock(repair.time)}`, repair }))),
+  ...mergeRepairs.map(repair => ({ location: `Merge · ${formatClock(repair.time)}`, repair })),
+];
+
+/**
+ * Plain-text version of the log, one tab-separated repair per line.
+ */
+export const formatRepairLog = (entries: RepairLogEntry[], title: string): string => {
+  const counts = (['fixed', 'mapped', 'dropped'] as const).map(action => `${entries.filter(e => e.repair.action === action).length} ${action}`);
+  return [
+    `Segment validation log: ${title}`,
+    `${entries.length} repairs (${counts.join(', ')})`,
+    '',
+    ...entries.map(e => `${e.location}\t${e.repair.action}\t${e.repair.message}`),
+  ].join('\n');
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Own keys only, so a value like "toString" or "constructor" is not mistaken for a member
+function isMember<K extends string>(record: Record<K, true>, value: unknown): value is K {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(record, value);
+}
+
+function toNumber(value: unknown): number | null {
+  const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : null;
+}
+
+function optionalText(value: unknown, field: string, log: (message: string) => void): string | undefined {
+  if (value == null) return undefined;
+  if (typeof value !== 'string') {
+    log(`${field} ${JSON.stringify(value)} removed, not text`);
+    return undefined;
+  }
+  return value.trim() || undefined;
+}
+
+// Returns undefined (and logs why) unless every field matches the response schema
+function validateMusicAnalysis(value: unknown, log: (message: string) => void): MusicAnalysis | undefined {
+  if (!isRecord(value)) {
+    log('musicAnalysis removed, not an object');
+    return undefined;
+  }
+  let tempo = value.tempo as MusicAnalysis['tempo'];
+  if (tempo != null && !isMember(MUSIC_ENUMS.tempo, tempo)) {
+    log(`tempo ${JSON.stringify(tempo)} removed, derived from the measured BPM instead`);
+    tempo = undefined;
+  }
+  for (const field of Object.keys(MUSIC_ENUMS) as (keyof typeof MUSIC_ENUMS)[]) {
+    if (field === 'tempo') continue;
+    const fieldValue = value[field];
+    if (!isMember<string>(MUSIC_ENUMS[field], fieldValue)) {
+      log(`musicAnalysis removed, invalid ${field} ${JSON.stringify(fieldValue)}`);
+      return undefined;
+    }
+  }
+  const sentiment = toNumber(value.sentimentScore);
+  if (sentiment === null) {
+    log(`musicAnalysis removed, invalid sentimentScore ${JSON.stringify(value.sentimentScore)}`);
+    return undefined;
+  }
+  const sentimentScore = Math.max(-1, Math.min(1, sentiment));
+  if (sentimentScore !== sentiment) {
+    log(`sentimentScore ${sentiment} clamped to ${sentimentScore}`);
+  }
+  return {
+    source: value.source as MusicAnalysis['source'],
+    ...(tempo ? { tempo } : {}),
+    dynamics: value.dynamics as MusicAnalysis['dynamics'],
+    progression: value.progression as MusicAnalysis['progression'],
+    harmonicMode: value.harmonicMode as MusicAnalysis['harmonicMode'],
+    sentimentScore,
+  };
+}
+
+function formatSeconds(seconds: number): string {
+  return `${Math.round(seconds * 100) / 100}s`;
+}
+
+function formatClock(seconds: number): string {
+  const min = Math.floor(seconds / 60);
+  return `${min}:${(seconds - min * 60).toFixed(1).padStart(4, '0')}`;
+}
+
+function truncate(text: string): string {
+  return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+}
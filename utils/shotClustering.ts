@@ -0,0 +1,158 @@
+import { SubtitleNode, ShotGroup } from "../types";
+
+/**
+ * Groups scene nodes into recurring camera setups (shot-reverse-shot, revisited locations).
+ * Works from the stored thumbnails, so it also runs on imported projects.
+ */
+
+// CONFIGURATION
+const HASH_WIDTH = 9; // dHash compares 8 horizontal neighbours per row
+const HASH_HEIGHT = 8;
+const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+const COLOR_WIDTH = 32;
+const COLOR_HEIGHT = 18;
+const COLOR_LEVELS = 4; // Per channel, 64 bins in total
+const HASH_WEIGHT = 0.5; // Structure vs colour in the distance
+export const DEFAULT_CLUSTER_DISTANCE = 0.25; // Average-linkage distance (0-1) below which scenes share a setup
+
+interface ShotFingerprint {
+  hash: Uint8Array; // HASH_BITS of 0/1: is each pixel brighter than its right neighbour
+  colors: Float32Array; // Normalised RGB histogram
+}
+
+/**
+ * Assigns a shot group to every scene that has a thumbnail (scenes without one lose any old group);
+ * other nodes are returned unchanged.
+ * Groups are labelled A, B, ... in order of first appearance.
+ */
+export const clusterShots = async (
+  subtitles: SubtitleNode[],
+  maxDistance: number = DEFAULT_CLUSTER_DISTANCE
+): Promise<SubtitleNode[]> => {
+  const scenes = subtitles
+    .filter(s => s.type === 'scene' && s.thumbnail)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const fingerprints = await Promise.all(scenes.map(scene => fingerprintImage(scene.thumbnail!)));
+
+  // Greedy average-linkage: each scene joins the closest existing group or starts a new one
+  const groups: number[][] = [];
+  const groupOf = new Map<string, number>();
+  scenes.forEach((scene, index) => {
+    let best = -1;
+    let bestDistance = maxDistance;
+    groups.forEach((members, group) => {
+      const distance = members.reduce((sum, m) => sum + fingerprintDistance(fingerprints[m], fingerprints[index]), 0) / members.length;
+      if (distance < bestDistance) {
+        best = group;
+        bestDistance = distance;
+      }
+    });
+    if (best === -1) {
+      best = groups.length;
+      groups.push([]);
+    }
+    groups[best].push(index);
+    groupOf.set(scene.id, best);
+  });
+
+  return subtitles.map(node => {
+    const group = groupOf.get(node.id);
+    if (group === undefined) {
+      if (node.type !== 'scene' || !node.shotGroup) return node;
+      const clean = { ...node };
+      delete clean.shotGroup;
+      return clean;
+    }
+    const shotGroup: ShotGroup = { id: group, label: groupLabel(group) };
+    return { ...node, shotGroup };
+  });
+};
+
+/**
+ * A, B, ..., Z, AA, AB, ...
+ */
+export const groupLabel = (index: number): string => {
+  let label = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    label = String.fromCharCode(65 + rem) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+};
+
+async function fingerprintImage(dataUrl: string): Promise<ShotFingerprint> {
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create canvas context");
+
+  // Structure: difference hash on a 9x8 grayscale thumbnail
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  ctx.drawImage(image, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const gray = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data;
+  const hash = new Uint8Array(HASH_BITS);
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const i = (y * HASH_WIDTH + x) * 4;
+      const left = 0.299 * gray[i] + 0.587 * gray[i + 1] + 0.114 * gray[i + 2];
+      const right = 0.299 * gray[i + 4] + 0.587 * gray[i + 5] + 0.114 * gray[i + 6];
+      hash[y * (HASH_WIDTH - 1) + x] = left > right ? 1 : 0;
+    }
+  }
+
+  // Colour: coarse RGB histogram
+  canvas.width = COLOR_WIDTH;
+  canvas.height = COLOR_HEIGHT;
+  ctx.drawImage(image, 0, 0, COLOR_WIDTH, COLOR_HEIGHT);
+  const pixels = ctx.getImageData(0, 0, COLOR_WIDTH, COLOR_HEIGHT).data;
+  const colors = new Float32Array(COLOR_LEVELS * COLOR_LEVELS * COLOR_LEVELS);
+  const pixelCount = COLOR_WIDTH * COLOR_HEIGHT;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const bin = (level(pixels[i]) * COLOR_LEVELS + level(pixels[i + 1])) * COLOR_LEVELS + level(pixels[i + 2]);
+    colors[bin] += 1 / pixelCount;
+  }
+
+  canvas.remove();
+  return { hash, colors };
+}
+
+function level(value: number): number {
+  return Math.min(COLOR_LEVELS - 1, Math.floor(value / (256 / COLOR_LEVELS)));
+}
+
+// 0 (identical) to 1
+function fingerprintDistance(a: ShotFingerprint, b: ShotFingerprint): number {
+  let hamming = 0;
+  for (let i = 0; i < HASH_BITS; i++) if (a.hash[i] !== b.hash[i]) hamming++;
+
+  let colorDiff = 0;
+  for (let i = 0; i < a.colors.length; i++) colorDiff += Math.abs(a.colors[i] - b.colors[i]);
+
+  return HASH_WEIGHT * (hamming / HASH_BITS) + (1 - HASH_WEIGHT) * (colorDiff / 2);
+}
+
+/**
+ * Shot group of every node: scenes carry their own, other nodes take the scene they start in.
+ * Nodes outside any grouped scene are absent.
+ */
+export const shotGroupsByNode = (subtitles: SubtitleNode[]): Map<string, ShotGroup> => {
+  const scenes = subtitles
+    .filter(s => s.type === 'scene')
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const groups = new Map<string, ShotGroup>();
+
+  subtitles.forEach(node => {
+    const scene = node.type === 'scene'
+      ? node
+      : scenes.filter(s => s.timestamp <= node.timestamp && (s.endTime === undefined || node.timestamp < s.endTime)).pop();
+    if (scene?.shotGroup) groups.set(node.id, scene.shotGroup);
+  });
+  return groups;
+};
@@ -0,0 +1,125 @@
+/**
+ * Frequency-domain helpers shared by the audio visualisation and analysis features.
+ */
+
+export interface Spectrogram {
+  columns: number;
+  bins: number; // fftSize / 2
+  data: Float32Array; // columns * bins magnitudes in dB, column-major
+  minDb: number;
+  maxDb: number;
+}
+
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must have the same power-of-two length.
+ */
+export const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  const { cos: cosTable, sin: sinTable } = getTwiddles(n);
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const stride = n / size; // Twiddle k of this stage is entry k * stride of the size-n table
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = cosTable[k * stride];
+        const sin = sinTable[k * stride];
+        const a = start + k;
+        const b = a + half;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+};
+
+export const hannWindow = (size: number): Float32Array => {
+  const win = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    win[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)));
+  }
+  return win;
+};
+
+/**
+ * Magnitude spectrum of one windowed frame starting at `offset` (zero-padded past the end).
+ */
+export const magnitudeSpectrum = (
+  samples: Float32Array,
+  offset: number,
+  win: Float32Array,
+  re: Float32Array = new Float32Array(win.length),
+  im: Float32Array = new Float32Array(win.length)
+): Float32Array => {
+  const size = win.length;
+  for (let i = 0; i < size; i++) {
+    const idx = offset + i;
+    re[i] = idx < samples.length ? samples[idx] * win[i] : 0;
+    im[i] = 0;
+  }
+  fft(re, im);
+
+  const mags = new Float32Array(size / 2);
+  for (let k = 0; k < size / 2; k++) {
+    mags[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+  }
+  return mags;
+};
+
+/**
+ * Short-time Fourier transform sampled at `columns` evenly spaced frames across the signal.
+ */
+export const computeSpectrogram = (samples: Float32Array, columns: number, fftSize: number = 512): Spectrogram => {
+  const bins = fftSize / 2;
+  const data = new Float32Array(columns * bins);
+  const win = hannWindow(fftSize);
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const hop = Math.max(1, (samples.length - fftSize) / Math.max(1, columns - 1));
+
+  let minDb = Infinity;
+  let maxDb = -Infinity;
+
+  for (let c = 0; c < columns; c++) {
+    const mags = magnitudeSpectrum(samples, Math.floor(c * hop), win, re, im);
+    for (let k = 0; k < bins; k++) {
+      const db = 20 * Math.log10(mags[k] + 1e-9);
+      data[c * bins + k] = db;
+      if (db < minDb) minDb = db;
+      if (db > maxDb) maxDb = db;
+    }
+  }
+
+  return { columns, bins, data, minDb, maxDb };
+};
+
+const twiddleTables = new Map<number, { cos: Float64Array; sin: Float64Array }>();
+
+// e^(-2πik/n) for k < n/2, built once per FFT size
+function getTwiddles(n: number): { cos: Float64Array; sin: Float64Array } {
+  let table = twiddleTables.get(n);
+  if (!table) {
+    table = { cos: new Float64Array(n / 2), sin: new Float64Array(n / 2) };
+    for (let k = 0; k < n / 2; k++) {
+      table.cos[k] = Math.cos((-2 * Math.PI * k) / n);
+      table.sin[k] = Math.sin((-2 * Math.PI * k) / n);
+    }
+    twiddleTables.set(n, table);
+  }
+  return table;
+}
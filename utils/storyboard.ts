@@ -0,0 +1,315 @@
+import { SubtitleNode } from "../types";
+import { FrameRate, FRAME_RATES, secondsToFrames, formatFrameTimecode } from "./timecode";
+import { escapeHtml } from "./html";
+
+/**
+ * Storyboard / contact sheet: scene thumbnails in a grid, with timecode, duration,
+ * the scene description and the dialogue spoken during the scene under each frame.
+ */
+
+export interface StoryboardOptions {
+  columns: number;
+  rowsPerPage: number; // Long videos are split into pages of columns x rowsPerPage panels
+  frameRate: FrameRate;
+  includeDialogue: boolean;
+  excerptLength: number; // Characters of dialogue per panel
+}
+
+export const DEFAULT_STORYBOARD_OPTIONS: StoryboardOptions = {
+  columns: 4,
+  rowsPerPage: 3,
+  frameRate: FRAME_RATES[1],
+  includeDialogue: true,
+  excerptLength: 140,
+};
+
+export interface StoryboardPanel {
+  sceneNumber: number;
+  start: number;
+  end: number;
+  thumbnail?: string; // Data URL
+  description: string;
+  dialogue: string; // Excerpt, already shortened to excerptLength
+}
+
+// PNG layout, in pixels
+const PNG_PANEL_WIDTH = 320;
+const PNG_THUMB_HEIGHT = 180; // 16:9, thumbnails are letterboxed into it
+const PNG_GAP = 16;
+const PNG_MARGIN = 32;
+const PNG_HEADER_HEIGHT = 56;
+const PNG_LINE_HEIGHT = 15;
+const PNG_DESCRIPTION_LINES = 3;
+const PNG_DIALOGUE_LINES = 3;
+
+/**
+ * One panel per scene, in time order. A scene without an end time runs until the next scene,
+ * the last one until the end of the video when its duration is known.
+ */
+export const buildStoryboardPanels = (
+  subtitles: SubtitleNode[],
+  options: StoryboardOptions = DEFAULT_STORYBOARD_OPTIONS,
+  videoDuration: number | null = null
+): StoryboardPanel[] => {
+  const scenes = subtitles
+    .filter(s => s.type === 'scene')
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const dialogue = subtitles
+    .filter(s => s.type === 'dialogue')
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return scenes.map((scene, index) => {
+    const start = scene.timestamp;
+    const end = scene.endTime ?? scenes[index + 1]?.timestamp ?? Math.max(start, videoDuration ?? start);
+    const lines = options.includeDialogue
+      ? dialogue
+        .filter(d => d.timestamp >= start && (end > start ? d.timestamp < end : d.timestamp === start))
+        .map(d => d.speaker ? `${d.speaker}: ${d.text}` : d.text)
+      : [];
+
+    return {
+      sceneNumber: index + 1,
+      start,
+      end,
+      thumbnail: scene.thumbnail,
+      description: scene.text,
+      dialogue: truncate(lines.join(' '), options.excerptLength),
+    };
+  });
+};
+
+/**
+ * Splits panels into pages of columns x rowsPerPage.
+ */
+export const paginatePanels = (panels: StoryboardPanel[], options: StoryboardOptions): StoryboardPanel[][] => {
+  const perPage = Math.max(1, options.columns * options.rowsPerPage);
+  const pages: StoryboardPanel[][] = [];
+  for (let i = 0; i < panels.length; i += perPage) pages.push(panels.slice(i, i + perPage));
+  return pages;
+};
+
+/**
+ * Renders the storyboard as a self-contained, print-ready HTML page (thumbnails inlined),
+ * one printed sheet per page.
+ */
+export const exportStoryboardHtml = (
+  subtitles: SubtitleNode[],
+  productionTitle: string,
+  options: StoryboardOptions = DEFAULT_STORYBOARD_OPTIONS,
+  videoDuration: number | null = null
+): string => {
+  const panels = buildStoryboardPanels(subtitles, options, videoDuration);
+  const pages = paginatePanels(panels, options);
+  const tc = (seconds: number) => formatTimecode(seconds, options.frameRate);
+
+  const renderPanel = (panel: StoryboardPanel) => `<figure>
+  ${panel.thumbnail ? `<img src="${escapeHtml(panel.thumbnail)}" alt="Scene ${panel.sceneNumber}">` : '<div class="missing">No thumbnail</div>'}
+  <figcaption>
+    <div class="tc"><b>${panel.sceneNumber}</b> ${tc(panel.start)} &middot; ${formatDuration(panel.end - panel.start)}</div>
+    <div class="desc">${escapeHtml(panel.description)}</div>
+    ${panel.dialogue ? `<div class="dialogue">&ldquo;${escapeHtml(panel.dialogue)}&rdquo;</div>` : ''}
+  </figcaption>
+</figure>`;
+
+  const body = pages.length > 0
+    ? pages.map((page, index) => `<section class="page">
+<header>
+  <h1>Storyboard &middot; ${escapeHtml(productionTitle)}</h1>
+  <span>Page ${index + 1} of ${pages.length}</span>
+</header>
+<div class="grid">
+${page.map(renderPanel).join('\n')}
+</div>
+</section>`).join('\n')
+    : '<p class="empty">No scenes</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Storyboard - ${escapeHtml(productionTitle)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #111; margin: 32px; }
+  .page { margin-bottom: 48px; }
+  header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 1px solid #999; margin-bottom: 12px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  header span { font-size: 11px; color: #555; }
+  .grid { display: grid; grid-template-columns: repeat(${options.columns}, 1fr); gap: 12px; }
+  figure { margin: 0; break-inside: avoid; }
+  img, .missing { width: 100%; aspect-ratio: 16 / 9; object-fit: contain; background: #000; display: block; }
+  .missing { color: #777; font-size: 11px; display: flex; align-items: center; justify-content: center; }
+  figcaption { font-size: 10px; line-height: 1.35; padding-top: 4px; }
+  .tc { font-family: Menlo, Consolas, monospace; color: #333; }
+  .desc { margin-top: 2px; }
+  .dialogue { margin-top: 2px; color: #555; font-style: italic; }
+  .empty { color: #777; }
+  @media print {
+    body { margin: 0; }
+    @page { size: landscape; margin: 10mm; }
+    .page { margin: 0; page-break-after: always; }
+    .page:last-child { page-break-after: auto; }
+  }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+/**
+ * Draws each storyboard page onto a canvas and encodes it as PNG, one blob per page.
+ */
+export const renderStoryboardPng = async (
+  subtitles: SubtitleNode[],
+  productionTitle: string,
+  options: StoryboardOptions = DEFAULT_STORYBOARD_OPTIONS,
+  videoDuration: number | null = null
+): Promise<Blob[]> => {
+  const pages = paginatePanels(buildStoryboardPanels(subtitles, options, videoDuration), options);
+  const textHeight = PNG_LINE_HEIGHT * (1 + PNG_DESCRIPTION_LINES + (options.includeDialogue ? PNG_DIALOGUE_LINES : 0)) + 8;
+  const panelHeight = PNG_THUMB_HEIGHT + textHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = PNG_MARGIN * 2 + options.columns * PNG_PANEL_WIDTH + (options.columns - 1) * PNG_GAP;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas context");
+
+  const blobs: Blob[] = [];
+  for (let p = 0; p < pages.length; p++) {
+    const page = pages[p];
+    const rows = Math.ceil(page.length / options.columns);
+    // Setting the size also clears the canvas
+    canvas.height = PNG_MARGIN * 2 + PNG_HEADER_HEIGHT + rows * panelHeight + (rows - 1) * PNG_GAP;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#111111';
+    ctx.font = 'bold 18px Helvetica, Arial, sans-serif';
+    ctx.fillText(`Storyboard · ${productionTitle}`, PNG_MARGIN, PNG_MARGIN, canvas.width - PNG_MARGIN * 2 - 120);
+    ctx.font = '11px Helvetica, Arial, sans-serif';
+    ctx.fillStyle = '#555555';
+    ctx.textAlign = 'right';
+    ctx.fillText(`Page ${p + 1} of ${pages.length}`, canvas.width - PNG_MARGIN, PNG_MARGIN + 6);
+    ctx.textAlign = 'left';
+
+    const images = await Promise.all(page.map(panel => panel.thumbnail ? loadImage(panel.thumbnail) : Promise.resolve(null)));
+
+    page.forEach((panel, index) => {
+      const x = PNG_MARGIN + (index % options.columns) * (PNG_PANEL_WIDTH + PNG_GAP);
+      const y = PNG_MARGIN + PNG_HEADER_HEIGHT + Math.floor(index / options.columns) * (panelHeight + PNG_GAP);
+      drawPanel(ctx, panel, images[index], x, y, options);
+    });
+
+    blobs.push(await canvasToPng(canvas));
+  }
+
+  canvas.remove();
+  return blobs;
+};
+
+function drawPanel(
+  ctx: CanvasRenderingContext2D,
+  panel: StoryboardPanel,
+  image: HTMLImageElement | null,
+  x: number,
+  y: number,
+  options: StoryboardOptions
+) {
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(x, y, PNG_PANEL_WIDTH, PNG_THUMB_HEIGHT);
+  if (image) {
+    const scale = Math.min(PNG_PANEL_WIDTH / image.naturalWidth, PNG_THUMB_HEIGHT / image.naturalHeight);
+    const w = image.naturalWidth * scale;
+    const h = image.naturalHeight * scale;
+    ctx.drawImage(image, x + (PNG_PANEL_WIDTH - w) / 2, y + (PNG_THUMB_HEIGHT - h) / 2, w, h);
+  }
+
+  let lineY = y + PNG_THUMB_HEIGHT + 6;
+  ctx.fillStyle = '#333333';
+  ctx.font = '11px Menlo, Consolas, monospace';
+  ctx.fillText(
+    `${panel.sceneNumber}  ${formatTimecode(panel.start, options.frameRate)} · ${formatDuration(panel.end - panel.start)}`,
+    x, lineY, PNG_PANEL_WIDTH
+  );
+  lineY += PNG_LINE_HEIGHT;
+
+  ctx.fillStyle = '#111111';
+  ctx.font = '11px Helvetica, Arial, sans-serif';
+  wrapText(ctx, panel.description, PNG_PANEL_WIDTH, PNG_DESCRIPTION_LINES).forEach(line => {
+    ctx.fillText(line, x, lineY, PNG_PANEL_WIDTH);
+    lineY += PNG_LINE_HEIGHT;
+  });
+
+  if (options.includeDialogue && panel.dialogue) {
+    lineY = y + PNG_THUMB_HEIGHT + 6 + PNG_LINE_HEIGHT * (1 + PNG_DESCRIPTION_LINES);
+    ctx.fillStyle = '#555555';
+    ctx.font = 'italic 11px Helvetica, Arial, sans-serif';
+    wrapText(ctx, `“${panel.dialogue}”`, PNG_PANEL_WIDTH, PNG_DIALOGUE_LINES).forEach(line => {
+      ctx.fillText(line, x, lineY, PNG_PANEL_WIDTH);
+      lineY += PNG_LINE_HEIGHT;
+    });
+  }
+}
+
+// Greedy word wrap; the last allowed line ends with an ellipsis when text is left over
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+
+  for (let i = 0; i < words.length; i++) {
+    const candidate = line ? `${line} ${words[i]}` : words[i];
+    if (ctx.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = words[i];
+    if (lines.length === maxLines) {
+      line = '';
+      const last = lines.length - 1;
+      while (lines[last].length > 1 && ctx.measureText(`${lines[last]}…`).width > maxWidth) {
+        lines[last] = lines[last].slice(0, -1);
+      }
+      lines[last] = `${lines[last].trimEnd()}…`;
+      break;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function loadImage(dataUrl: string): Promise<HTMLImageElement | null> {
+  const image = new Image();
+  image.src = dataUrl;
+  // A broken thumbnail leaves an empty frame rather than failing the page
+  return image.decode().then(() => image, () => null);
+}
+
+function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode storyboard page")), 'image/png');
+  });
+}
+
+function formatTimecode(seconds: number, frameRate: FrameRate): string {
+  return formatFrameTimecode(secondsToFrames(seconds, frameRate), frameRate);
+}
+
+// Shots are short, so durations keep one decimal below a minute
+function formatDuration(seconds: number): string {
+  const total = Math.max(0, seconds);
+  if (total < 60) return `${total.toFixed(1)}s`;
+  const rounded = Math.round(total);
+  return `${Math.floor(rounded / 60)}m ${(rounded % 60).toString().padStart(2, '0')}s`;
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
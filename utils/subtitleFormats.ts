@@ -0,0 +1,405 @@
+import { SubtitleNode } from "../types";
+import { formatClockTime, parseClockTime, pad } from "./timecode";
+
+// Nodes without an endTime are shown for this long (matches SubtitleList's active window)
+const DEFAULT_CUE_DURATION = 2;
+
+export type SubtitleTextField = 'text' | 'translation';
+
+export interface SubtitleExportOptions {
+  includeSpeaker: boolean;
+  textField: SubtitleTextField;
+  types: SubtitleNode['type'][];
+}
+
+export const DEFAULT_EXPORT_OPTIONS: SubtitleExportOptions = {
+  includeSpeaker: true,
+  textField: 'text',
+  types: ['dialogue', 'music', 'scene'],
+};
+
+interface ResolvedCue {
+  node: SubtitleNode;
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Filters, sorts and times the nodes that will become cues.
+ * Shared by every text subtitle exporter so they agree on what gets written.
+ */
+const resolveCues = (subtitles: SubtitleNode[], options: SubtitleExportOptions): ResolvedCue[] => {
+  const sorted = subtitles
+    .filter(sub => options.types.includes(sub.type))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const cues: ResolvedCue[] = [];
+  sorted.forEach(node => {
+    // Untranslated nodes fall back to the original text so the timeline stays complete
+    const raw = options.textField === 'translation' ? (node.translation || node.text) : node.text;
+    // A blank line ends an SRT/VTT cue, so runs of line breaks collapse to one
+    const text = raw?.replace(/\r\n?/g, '\n').replace(/\n\s*\n/g, '\n').trim();
+    if (!text) return;
+
+    const start = Math.max(0, node.timestamp);
+    const end = node.endTime !== undefined && node.endTime > start
+      ? node.endTime
+      : start + DEFAULT_CUE_DURATION;
+
+    cues.push({ node, start, end, text });
+  });
+
+  return cues;
+};
+
+// ---------------------------------------------------------------------------
+// SubRip (.srt)
+// ---------------------------------------------------------------------------
+
+/**
+ * Serializes the timeline as SubRip text.
+ */
+export const exportToSrt = (
+  subtitles: SubtitleNode[],
+  options: SubtitleExportOptions = DEFAULT_EXPORT_OPTIONS
+): string => {
+  const cues = resolveCues(subtitles, options);
+
+  return cues.map((cue, index) => {
+    const prefix = options.includeSpeaker && cue.node.speaker ? `${cue.node.speaker}: ` : '';
+    return [
+      `${index + 1}`,
+      `${formatClockTime(cue.start, ',')} --> ${formatClockTime(cue.end, ',')}`,
+      `${prefix}${cue.text}`,
+    ].join('\n');
+  }).join('\n\n') + '\n';
+};
+
+export interface RejectedCue {
+  line: number; // 1-based line where the cue block starts
+  reason: string;
+  content: string;
+}
+
+export interface SubtitleImportResult {
+  nodes: SubtitleNode[];
+  rejected: RejectedCue[];
+}
+
+const TIMING_LINE = /^\s*(\S+)\s*-->\s*(\S+)/;
+// "Name: text" as written by exportToSrt with includeSpeaker
+const SPEAKER_PREFIX = /^([^:\n]{1,32}):\s+(.+)$/s;
+
+/**
+ * Parses SubRip text into dialogue nodes.
+ * Malformed cues are skipped and reported instead of aborting the whole import.
+ */
+export const parseSrt = (content: string): SubtitleImportResult => {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const nodes: SubtitleNode[] = [];
+  const rejected: RejectedCue[] = [];
+
+  let block: string[] = [];
+  let blockStart = 0;
+
+  const flush = () => {
+    if (block.length === 0) return;
+
+    const result = parseSrtBlock(block);
+    if (typeof result === 'string') {
+      rejected.push({ line: blockStart + 1, reason: result, content: block.join('\n') });
+    } else {
+      nodes.push(result);
+    }
+    block = [];
+  };
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '') {
+      flush();
+      return;
+    }
+    if (block.length === 0) blockStart = index;
+    block.push(line);
+  });
+  flush();
+
+  return { nodes: nodes.sort((a, b) => a.timestamp - b.timestamp), rejected };
+};
+
+/**
+ * Adds imported cues to the timeline without touching existing dialogue: cues that overlap an
+ * existing dialogue node are left out. Returns the combined, time-ordered list.
+ */
+export const mergeDialogueCues = (existing: SubtitleNode[], cues: SubtitleNode[]): { nodes: SubtitleNode[]; added: number } => {
+  const dialogue = existing.filter(s => s.type === 'dialogue');
+  const overlaps = (a: SubtitleNode, b: SubtitleNode) =>
+    a.timestamp < (b.endTime ?? b.timestamp) && b.timestamp < (a.endTime ?? a.timestamp);
+  const added = cues.filter(cue => !dialogue.some(node => overlaps(cue, node)));
+  return {
+    nodes: [...existing, ...added].sort((a, b) => a.timestamp - b.timestamp),
+    added: added.length,
+  };
+};
+
+// Returns the parsed node, or the reason the block was rejected
+function parseSrtBlock(block: string[]): SubtitleNode | string {
+  // The numeric index is optional in practice; locate the timing line instead
+  const timingIndex = block.findIndex(line => line.includes('-->'));
+  if (timingIndex === -1) return "Missing timing line";
+  if (timingIndex > 1) return "Unexpected text before timing line";
+
+  const timing = block[timingIndex].match(TIMING_LINE);
+  if (!timing) return "Malformed timing line";
+
+  const start = parseClockTime(timing[1]);
+  const end = parseClockTime(timing[2]);
+  if (start === null) return `Invalid start time "${timing[1]}"`;
+  if (end === null) return `Invalid end time "${timing[2]}"`;
+  if (end < start) return "End time is before start time";
+
+  const rawText = block
+    .slice(timingIndex + 1)
+    .join('\n')
+    .replace(/<[^>]+>/g, '') // <i>, <b>, <font ...>
+    .replace(/\{\\[^}]*\}/g, '') // ASS-style override tags some tools leave behind
+    .trim();
+  if (!rawText) return "Cue has no text";
+
+  const speakerMatch = rawText.match(SPEAKER_PREFIX);
+
+  return {
+    id: crypto.randomUUID(),
+    timestamp: start,
+    endTime: end,
+    type: 'dialogue',
+    text: speakerMatch ? speakerMatch[2].trim() : rawText,
+    speaker: speakerMatch ? speakerMatch[1].trim() : undefined,
+    isAutoGenerated: false,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// WebVTT (.vtt)
+// ---------------------------------------------------------------------------
+
+export interface VttExportOptions extends SubtitleExportOptions {
+  // Raw WebVTT cue settings appended to the timing line, per node type
+  cueSettings: Partial<Record<SubtitleNode['type'], string>>;
+}
+
+export const DEFAULT_VTT_OPTIONS: VttExportOptions = {
+  ...DEFAULT_EXPORT_OPTIONS,
+  cueSettings: {
+    dialogue: 'line:-2 align:center',
+    // Keep music/scene notes out of the way of dialogue at the bottom
+    music: 'line:1 align:start',
+    scene: 'line:1 align:end',
+  },
+};
+
+// Escaping ">" also keeps "-->", which cue text must not contain, out of the payload
+const escapeVtt = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Serializes the timeline as WebVTT, using voice tags for speakers.
+ */
+export const exportToVtt = (
+  subtitles: SubtitleNode[],
+  options: VttExportOptions = DEFAULT_VTT_OPTIONS
+): string => {
+  const cues = resolveCues(subtitles, options);
+
+  const body = cues.map((cue, index) => {
+    const settings = options.cueSettings[cue.node.type];
+    const timing = `${formatClockTime(cue.start, '.')} --> ${formatClockTime(cue.end, '.')}`;
+    const text = escapeVtt(cue.text);
+    // Voice tag annotations cannot contain ">" and should not span lines
+    const speaker = cue.node.speaker?.replace(/[>\n]/g, ' ').trim();
+    const payload = options.includeSpeaker && speaker ? `<v ${speaker}>${text}` : text;
+
+    return [
+      `${index + 1}`,
+      settings ? `${timing} ${settings}` : timing,
+      payload,
+    ].join('\n');
+  });
+
+  return ['WEBVTT', ...body].join('\n\n') + '\n';
+};
+
+// ---------------------------------------------------------------------------
+// Advanced SubStation Alpha (.ass)
+// ---------------------------------------------------------------------------
+
+export type AssEmotionMode = 'none' | 'comment' | 'actor';
+
+export interface AssExportOptions extends SubtitleExportOptions {
+  playResX: number;
+  playResY: number;
+  fontName: string;
+  fontSize: number;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+  // 'comment' writes the emotion as an inline {note}, 'actor' appends it to the Name field
+  emotionMode: AssEmotionMode;
+}
+
+export const DEFAULT_ASS_OPTIONS: AssExportOptions = {
+  ...DEFAULT_EXPORT_OPTIONS,
+  playResX: 1920,
+  playResY: 1080,
+  fontName: 'Arial',
+  fontSize: 54,
+  marginL: 60,
+  marginR: 60,
+  marginV: 50,
+  emotionMode: 'comment',
+};
+
+// &HAABBGGRR colours cycled across speakers
+const SPEAKER_COLOURS = [
+  '&H00FFFFFF', '&H0000FFFF', '&H00FFFF00', '&H0080FF80',
+  '&H00FF80FF', '&H0080C0FF', '&H00C0C0FF', '&H00FFC080',
+];
+const MUSIC_COLOUR = '&H00FF80C0';
+const SCENE_COLOUR = '&H00C0C0C0';
+
+const DEFAULT_STYLE = 'Default';
+const MUSIC_STYLE = 'Music';
+const SCENE_STYLE = 'Scene';
+
+interface AssStyle {
+  name: string;
+  colour: string;
+  italic: boolean;
+  alignment: number; // numpad layout: 2 = bottom centre, 8 = top centre, 7 = top left
+}
+
+/**
+ * Formats seconds as the ASS H:MM:SS.cc timestamp (centisecond precision).
+ */
+const formatAssTime = (seconds: number): string => {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(cs)}`;
+};
+
+// Commas separate style fields, so they cannot appear in style names
+const toStyleName = (speaker: string) => `Speaker_${speaker.replace(/[,\s]+/g, '_')}`;
+
+// Renderers have no escape for a backslash; a zero-width space after it keeps \n, \N and \h in the text literal
+const escapeAss = (text: string) =>
+  text.replace(/\\/g, '\\\u200B').replace(/\{/g, '(').replace(/\}/g, ')').replace(/\n/g, '\\N');
+
+/**
+ * Serializes the timeline as an Advanced SubStation Alpha script with one style per speaker
+ * and dedicated styles for music and scene notes.
+ */
+export const exportToAss = (
+  subtitles: SubtitleNode[],
+  options: AssExportOptions = DEFAULT_ASS_OPTIONS,
+  title: string = 'SceneSync AI'
+): string => {
+  const cues = resolveCues(subtitles, options);
+
+  const styles: AssStyle[] = [{ name: DEFAULT_STYLE, colour: SPEAKER_COLOURS[0], italic: false, alignment: 2 }];
+  const speakerStyles = new Map<string, string>();
+
+  cues.forEach(cue => {
+    const speaker = cue.node.speaker?.trim();
+    if (cue.node.type !== 'dialogue' || !speaker || speakerStyles.has(speaker)) return;
+
+    // Sanitising can map different speakers to one name ("Ann, Dr" / "Ann Dr"); number the later ones
+    const base = toStyleName(speaker);
+    let name = base;
+    for (let n = 2; styles.some(style => style.name.toLowerCase() === name.toLowerCase()); n++) {
+      name = `${base}_${n}`;
+    }
+    speakerStyles.set(speaker, name);
+    styles.push({
+      name,
+      colour: SPEAKER_COLOURS[speakerStyles.size % SPEAKER_COLOURS.length],
+      italic: false,
+      alignment: 2,
+    });
+  });
+  styles.push({ name: MUSIC_STYLE, colour: MUSIC_COLOUR, italic: true, alignment: 7 });
+  styles.push({ name: SCENE_STYLE, colour: SCENE_COLOUR, italic: true, alignment: 8 });
+
+  const styleLines = styles.map(style => [
+    `Style: ${style.name}`,
+    options.fontName,
+    options.fontSize,
+    style.colour, // PrimaryColour
+    '&H000000FF', // SecondaryColour
+    '&H00000000', // OutlineColour
+    '&H80000000', // BackColour
+    0, // Bold
+    style.italic ? -1 : 0,
+    0, 0, // Underline, StrikeOut
+    100, 100, 0, 0, // ScaleX, ScaleY, Spacing, Angle
+    1, 2, 1, // BorderStyle, Outline, Shadow
+    style.alignment,
+    options.marginL,
+    options.marginR,
+    options.marginV,
+    1, // Encoding
+  ].join(','));
+
+  const eventLines = cues.map(cue => {
+    const { node } = cue;
+    const speaker = node.speaker?.trim();
+    const style = node.type === 'music'
+      ? MUSIC_STYLE
+      : node.type === 'scene'
+        ? SCENE_STYLE
+        : (speaker && speakerStyles.get(speaker)) || DEFAULT_STYLE;
+
+    const emotion = node.emotion?.trim();
+    let name = options.includeSpeaker && speaker ? speaker : '';
+    let text = escapeAss(cue.text);
+
+    if (emotion && options.emotionMode === 'actor') {
+      name = name ? `${name} (${emotion})` : emotion;
+    } else if (emotion && options.emotionMode === 'comment') {
+      // Brace blocks without a backslash are ignored by renderers
+      text = `{${escapeAss(emotion)}}${text}`;
+    }
+
+    return [
+      'Dialogue: 0',
+      formatAssTime(cue.start),
+      formatAssTime(cue.end),
+      style,
+      name.replace(/,/g, ' '),
+      '0000', '0000', '0000', // Margins inherit from the style
+      '',
+      text,
+    ].join(',');
+  });
+
+  return [
+    '[Script Info]',
+    `Title: ${title}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    `PlayResX: ${options.playResX}`,
+    `PlayResY: ${options.playResY}`,
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    ...styleLines,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...eventLines,
+  ].join('\n') + '\n';
+};
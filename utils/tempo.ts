@@ -0,0 +1,195 @@
+import { SubtitleNode, MusicAnalysis, TempoEstimate } from "../types";
+import { hannWindow, magnitudeSpectrum } from "./spectral";
+
+/**
+ * Offline onset detection and tempo estimation for music segments.
+ * Onset strength is log-magnitude spectral flux; tempo is the strongest periodicity of that envelope.
+ */
+
+// CONFIGURATION
+const FRAME_SIZE = 1024; // 64ms at 16kHz
+const HOP_SIZE = 256; // 16ms envelope resolution
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PRIOR_CENTER_BPM = 120; // Listeners (and annotators) favour tempi around 120; halves octave errors
+const PRIOR_WIDTH_OCTAVES = 1;
+const MIN_SEGMENT_SECONDS = 4; // Fewer than a handful of beats gives no usable periodicity
+
+// Peak picking: an onset must beat the local mean by this much of the envelope's spread
+const ONSET_WINDOW_FRAMES = 8;
+const ONSET_DELTA = 0.5;
+
+// Categorical boundaries used to derive MusicAnalysis.tempo from a BPM
+const SLOW_BELOW_BPM = 80;
+const FAST_FROM_BPM = 120;
+
+// Below this confidence the AI label is kept even when it disagrees
+export const MIN_TEMPO_CONFIDENCE = 0.3;
+
+export const bpmToTempo = (bpm: number): MusicAnalysis['tempo'] => {
+  if (bpm < SLOW_BELOW_BPM) return 'Slow';
+  if (bpm >= FAST_FROM_BPM) return 'Fast';
+  return 'Medium';
+};
+
+/**
+ * Spectral-flux onset strength, one value per hop.
+ */
+export const onsetEnvelope = (samples: Float32Array): Float32Array => {
+  const frames = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const envelope = new Float32Array(frames);
+  const win = hannWindow(FRAME_SIZE);
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+
+  let previous: Float32Array | null = null;
+  for (let f = 0; f < frames; f++) {
+    const mags = magnitudeSpectrum(samples, f * HOP_SIZE, win, re, im);
+    for (let k = 0; k < mags.length; k++) mags[k] = Math.log1p(100 * mags[k]);
+
+    if (previous) {
+      let flux = 0;
+      for (let k = 0; k < mags.length; k++) {
+        const diff = mags[k] - previous[k];
+        if (diff > 0) flux += diff;
+      }
+      envelope[f] = flux;
+    }
+    previous = mags;
+  }
+  return envelope;
+};
+
+/**
+ * Onset times (seconds from the start of `samples`) picked from the envelope with an adaptive threshold.
+ */
+export const detectOnsets = (envelope: Float32Array, sampleRate: number): number[] => {
+  const mean = envelope.reduce((a, b) => a + b, 0) / Math.max(1, envelope.length);
+  const spread = Math.sqrt(envelope.reduce((a, b) => a + (b - mean) ** 2, 0) / Math.max(1, envelope.length));
+
+  const onsets: number[] = [];
+  for (let i = 1; i < envelope.length - 1; i++) {
+    if (envelope[i] <= envelope[i - 1] || envelope[i] < envelope[i + 1]) continue;
+
+    const from = Math.max(0, i - ONSET_WINDOW_FRAMES);
+    const to = Math.min(envelope.length, i + ONSET_WINDOW_FRAMES + 1);
+    let local = 0;
+    for (let j = from; j < to; j++) local += envelope[j];
+    local /= to - from;
+
+    if (envelope[i] > local + ONSET_DELTA * spread) {
+      onsets.push((i * HOP_SIZE) / sampleRate);
+    }
+  }
+  return onsets;
+};
+
+/**
+ * Estimates the tempo of a mono signal. Returns null for audio too short to hold a periodicity.
+ * Confidence is the normalised autocorrelation at the chosen lag (0-1).
+ */
+export const estimateTempo = (samples: Float32Array, sampleRate: number): Omit<TempoEstimate, 'aiTempo'> | null => {
+  if (samples.length / sampleRate < MIN_SEGMENT_SECONDS) return null;
+
+  const envelope = onsetEnvelope(samples);
+  const onsets = detectOnsets(envelope, sampleRate);
+
+  // Remove the mean so the autocorrelation measures periodicity rather than overall level
+  const mean = envelope.reduce((a, b) => a + b, 0) / envelope.length;
+  const centered = envelope.map(v => v - mean);
+
+  const frameRate = sampleRate / HOP_SIZE;
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / MAX_BPM));
+  const maxLag = Math.min(centered.length - 1, Math.ceil((60 * frameRate) / MIN_BPM));
+
+  let energy = 0;
+  for (let i = 0; i < centered.length; i++) energy += centered[i] * centered[i];
+  if (energy <= 0 || maxLag <= minLag) return null;
+
+  let bestLag = 0;
+  let bestScore = -Infinity;
+  let bestCorrelation = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < centered.length; i++) sum += centered[i] * centered[i - lag];
+    // Unbiased estimate so long lags are not penalised for having fewer products
+    const correlation = (sum / (centered.length - lag)) / (energy / centered.length);
+
+    const bpm = (60 * frameRate) / lag;
+    const prior = Math.exp(-0.5 * (Math.log2(bpm / PRIOR_CENTER_BPM) / PRIOR_WIDTH_OCTAVES) ** 2);
+    const score = correlation * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+      bestCorrelation = correlation;
+    }
+  }
+
+  // Parabolic interpolation around the peak for sub-frame lag precision
+  const refinedLag = refineLag(centered, bestLag, minLag, maxLag);
+  const bpm = (60 * frameRate) / refinedLag;
+
+  return {
+    bpm: Math.round(bpm * 10) / 10,
+    confidence: Math.round(Math.min(1, Math.max(0, bestCorrelation)) * 100) / 100,
+    onsetCount: onsets.length,
+    derivedTempo: bpmToTempo(bpm),
+  };
+};
+
+// Estimates by node id, valid while the node keeps the timing they were measured on
+export type TempoCache = Map<string, { timestamp: number; endTime: number; estimate: Omit<TempoEstimate, 'aiTempo'> | null }>;
+
+/**
+ * Estimates the tempo of every music node from the decoded analysis buffer.
+ * MusicAnalysis.tempo is derived from the estimate when the AI omitted it, or when the estimate is
+ * confident and the AI label disagrees; a replaced AI label is kept in tempoEstimate.aiTempo.
+ * With a cache, only nodes that are new or retimed since the last call are measured again.
+ */
+export const estimateMusicTempo = (subtitles: SubtitleNode[], buffer: AudioBuffer, cache?: TempoCache): SubtitleNode[] => {
+  const samples = buffer.getChannelData(0);
+
+  return subtitles.map(node => {
+    if (node.type !== 'music' || node.endTime === undefined) return node;
+
+    const cached = cache?.get(node.id);
+    let estimate = cached && cached.timestamp === node.timestamp && cached.endTime === node.endTime ? cached.estimate : undefined;
+    if (estimate === undefined) {
+      const start = Math.max(0, Math.floor(node.timestamp * buffer.sampleRate));
+      const end = Math.min(samples.length, Math.ceil(node.endTime * buffer.sampleRate));
+      estimate = estimateTempo(samples.subarray(start, end), buffer.sampleRate);
+      cache?.set(node.id, { timestamp: node.timestamp, endTime: node.endTime, estimate });
+    }
+    if (!estimate) return node;
+
+    const aiTempo = node.tempoEstimate?.aiTempo ?? node.musicAnalysis?.tempo;
+    const override = !!aiTempo && estimate.confidence >= MIN_TEMPO_CONFIDENCE && aiTempo !== estimate.derivedTempo;
+
+    return {
+      ...node,
+      tempoEstimate: { ...estimate, aiTempo: override ? aiTempo : undefined },
+      // Re-estimating restores the AI label if the new estimate no longer overrides it
+      musicAnalysis: node.musicAnalysis
+        ? { ...node.musicAnalysis, tempo: override || !aiTempo ? estimate.derivedTempo : aiTempo }
+        : undefined,
+    };
+  });
+};
+
+function refineLag(values: Float32Array, lag: number, minLag: number, maxLag: number): number {
+  if (lag <= minLag || lag >= maxLag) return lag;
+
+  const at = (l: number) => {
+    let sum = 0;
+    for (let i = l; i < values.length; i++) sum += values[i] * values[i - l];
+    return sum / (values.length - l);
+  };
+  const a = at(lag - 1);
+  const b = at(lag);
+  const c = at(lag + 1);
+  const denominator = a - 2 * b + c;
+  if (denominator === 0) return lag;
+
+  const offset = (0.5 * (a - c)) / denominator;
+  return Math.abs(offset) < 1 ? lag + offset : lag;
+}
@@ -0,0 +1,115 @@
+/**
+ * Shared timecode helpers for the subtitle/export formats.
+ * All inputs and outputs are in seconds unless stated otherwise.
+ */
+
+/**
+ * Formats seconds as HH:MM:SS<sep>mmm (e.g. "00:01:02,500" for SRT).
+ */
+export const formatClockTime = (seconds: number, msSeparator: ',' | '.' = ','): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${msSeparator}${pad(ms, 3)}`;
+};
+
+/**
+ * Parses "HH:MM:SS,mmm", "HH:MM:SS.mmm" or "MM:SS.mmm" into seconds.
+ * Returns null when the string is not a valid clock time.
+ */
+export const parseClockTime = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/);
+  if (!match) return null;
+
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  const minutes = parseInt(match[2], 10);
+  const secs = parseInt(match[3], 10);
+  // "5" after the separator means 500ms, not 5ms
+  const ms = match[4] ? parseInt(match[4].padEnd(3, '0'), 10) : 0;
+
+  if (minutes > 59 || secs > 59) return null;
+
+  return hours * 3600 + minutes * 60 + secs + ms / 1000;
+};
+
+export const pad = (value: number, length: number = 2): string => {
+  return value.toString().padStart(length, '0');
+};
+
+// ---------------------------------------------------------------------------
+// Frame-based timecode (EDL / FCPXML)
+// ---------------------------------------------------------------------------
+
+export interface FrameRate {
+  label: string;
+  timebase: number; // Nominal integer rate used for timecode counting
+  ntsc: boolean; // true for the x/1.001 rates (23.976, 29.97, 59.94)
+}
+
+export const FRAME_RATES: FrameRate[] = [
+  { label: '23.976', timebase: 24, ntsc: true },
+  { label: '24', timebase: 24, ntsc: false },
+  { label: '25', timebase: 25, ntsc: false },
+  { label: '29.97', timebase: 30, ntsc: true },
+  { label: '30', timebase: 30, ntsc: false },
+  { label: '50', timebase: 50, ntsc: false },
+  { label: '59.94', timebase: 60, ntsc: true },
+  { label: '60', timebase: 60, ntsc: false },
+];
+
+export const getActualFps = (rate: FrameRate): number =>
+  rate.ntsc ? (rate.timebase * 1000) / 1001 : rate.timebase;
+
+// Drop-frame timecode only exists for 29.97 and 59.94
+export const supportsDropFrame = (rate: FrameRate): boolean =>
+  rate.ntsc && (rate.timebase === 30 || rate.timebase === 60);
+
+export const secondsToFrames = (seconds: number, rate: FrameRate): number =>
+  Math.max(0, Math.round(seconds * getActualFps(rate)));
+
+/**
+ * Frame count of a timecode label given in nominal seconds (e.g. 3600 for 01:00:00:00).
+ * Unlike secondsToFrames this counts timecode, not elapsed time: NDF labels advance at the
+ * integer timebase, and drop-frame labels skip the dropped frame numbers.
+ */
+export const timecodeToFrames = (seconds: number, rate: FrameRate, dropFrame: boolean = false): number => {
+  const nominal = Math.max(0, Math.round(seconds * rate.timebase));
+  if (!dropFrame || !supportsDropFrame(rate)) return nominal;
+
+  const dropFrames = rate.timebase === 60 ? 4 : 2;
+  const totalMinutes = Math.floor(nominal / (rate.timebase * 60));
+  return nominal - dropFrames * (totalMinutes - Math.floor(totalMinutes / 10));
+};
+
+/**
+ * Formats a frame count as SMPTE timecode (HH:MM:SS:FF, or HH:MM:SS;FF for drop-frame).
+ */
+export const formatFrameTimecode = (frames: number, rate: FrameRate, dropFrame: boolean = false): string => {
+  const tb = rate.timebase;
+  let count = Math.max(0, Math.round(frames));
+  const useDrop = dropFrame && supportsDropFrame(rate);
+
+  if (useDrop) {
+    // Skip frame numbers 0 and 1 (0-3 at 59.94) at the start of every minute except each tenth
+    const dropFrames = tb === 60 ? 4 : 2;
+    const framesPerMinute = tb * 60 - dropFrames;
+    const framesPer10Minutes = tb * 600 - dropFrames * 9;
+    const tenMinuteBlocks = Math.floor(count / framesPer10Minutes);
+    const remainder = count % framesPer10Minutes;
+
+    count += dropFrames * 9 * tenMinuteBlocks;
+    if (remainder > dropFrames) {
+      count += dropFrames * Math.floor((remainder - dropFrames) / framesPerMinute);
+    }
+  }
+
+  const ff = count % tb;
+  const ss = Math.floor(count / tb) % 60;
+  const mm = Math.floor(count / (tb * 60)) % 60;
+  const hh = Math.floor(count / (tb * 3600)) % 24;
+
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}${useDrop ? ';' : ':'}${pad(ff)}`;
+};